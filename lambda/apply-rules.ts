@@ -0,0 +1,98 @@
+import { parseArgs } from "node:util";
+
+import {
+  allDetections,
+  applyDetectionRules,
+  type DetectionRules,
+} from "../src/lib/detection-rules";
+import {
+  type PhotoWrite,
+  storedPhotoWrite,
+  updateStoredPhoto,
+} from "../src/lib/index-writer";
+import { withRetry } from "../src/lib/retry";
+import { detectionRules, INDEX_BACKEND, store } from "./pipeline";
+
+// applies DETECTION_RULES_FILE again to every indexed photo, using the
+// detections already stored (suppressed ones included), so changing a
+// threshold doesn't mean calling vision again.
+//
+//   npm run apply-rules -- --dry-run
+//   npm run apply-rules
+
+const { values: args } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+function ruleOutcome(photo: PhotoWrite): string {
+  return [
+    ...photo.detections.map((detection) => `${detection.detectionIndex}`),
+    ...(photo.suppressedDetections ?? []).map(
+      (detection) => `${detection.detectionIndex}:${detection.reason}`,
+    ),
+  ]
+    .sort()
+    .join(",");
+}
+
+// the photo with the rules applied, or the same photo when nothing changes
+function withRules(photo: PhotoWrite, rules: DetectionRules): PhotoWrite {
+  const { detections, suppressedDetections } = applyDetectionRules(
+    allDetections(photo.detections, photo.suppressedDetections),
+    rules,
+    photo.imageSize,
+  );
+  const updated: PhotoWrite = {
+    ...photo,
+    detections,
+    suppressedDetections:
+      suppressedDetections.length > 0 ? suppressedDetections : undefined,
+  };
+
+  return ruleOutcome(updated) === ruleOutcome(photo) ? photo : updated;
+}
+
+async function main() {
+  // without rules every suppressed detection would be put back
+  if (!process.env.DETECTION_RULES_FILE) {
+    throw new Error("Set DETECTION_RULES_FILE to the rules to apply.");
+  }
+
+  const rules = await detectionRules();
+  const dryRun = args["dry-run"];
+  let changed = 0;
+
+  console.info(`Applying detection rules on the ${INDEX_BACKEND} backend.`);
+
+  for (const item of await store.listPhotos()) {
+    const photo = storedPhotoWrite(item);
+    const updated = withRules(photo, rules);
+    if (updated === photo) {
+      continue;
+    }
+
+    changed += 1;
+    console.info(
+      `${photo.photoId}: ${photo.detections.length} -> ${updated.detections.length} indexed detections`,
+    );
+
+    if (!dryRun) {
+      await withRetry(
+        () =>
+          updateStoredPhoto(store, photo.photoId, (current) =>
+            withRules(current, rules),
+          ),
+        { label: `Updating ${photo.photoId}` },
+      );
+    }
+  }
+
+  console.info(`${dryRun ? "Would update" : "Updated"} ${changed} photos.`);
+}
+
+main().catch((error) => {
+  console.error("Applying detection rules failed", error);
+  process.exit(1);
+});
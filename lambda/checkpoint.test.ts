@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import {
+  clearCheckpoint,
+  createCheckpointTracker,
+  readCheckpoint,
+} from "./checkpoint";
+
+describe("createCheckpointTracker", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "checkpoint-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("only moves past keys once everything before them is done", async () => {
+    const filePath = path.join(dir, "out-of-order.json");
+    const tracker = createCheckpointTracker(filePath, {
+      prefix: "photos/",
+      since: "2024-01-01",
+    });
+    for (const key of ["a", "b", "c", "d"]) {
+      tracker.start(key);
+    }
+
+    await tracker.finish("b");
+    await tracker.finish("d");
+    assert.equal(await readCheckpoint(filePath), null);
+
+    await tracker.finish("a");
+    assert.equal((await readCheckpoint(filePath))?.lastKey, "b");
+
+    await tracker.finish("c");
+    const checkpoint = await readCheckpoint(filePath);
+    assert.equal(checkpoint?.lastKey, "d");
+    assert.equal(checkpoint?.prefix, "photos/");
+    assert.equal(checkpoint?.since, "2024-01-01");
+  });
+
+  it("writes checkpoints in the order keys finish", async () => {
+    const filePath = path.join(dir, "in-order.json");
+    const tracker = createCheckpointTracker(filePath, { prefix: "photos/" });
+    for (const key of ["a", "b", "c"]) {
+      tracker.start(key);
+    }
+
+    void tracker.finish("a");
+    void tracker.finish("b");
+    void tracker.finish("c");
+    await tracker.flush();
+
+    assert.equal((await readCheckpoint(filePath))?.lastKey, "c");
+  });
+
+  it("reads nothing once cleared", async () => {
+    const filePath = path.join(dir, "cleared.json");
+    const tracker = createCheckpointTracker(filePath, { prefix: "photos/" });
+    tracker.start("a");
+    await tracker.finish("a");
+
+    await clearCheckpoint(filePath);
+    assert.equal(await readCheckpoint(filePath), null);
+  });
+});
@@ -0,0 +1,82 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export const DEFAULT_CHECKPOINT_FILE = ".data/ingest-checkpoint.json";
+
+// where an interrupted or limited ingest run got to. `prefix` (the photo
+// source's location) and `since` are kept so a checkpoint is only resumed by
+// a run listing the same objects
+export type IngestCheckpoint = {
+  prefix: string;
+  since?: string;
+  lastKey: string;
+  updatedAt: string;
+};
+
+export async function readCheckpoint(
+  filePath: string,
+): Promise<IngestCheckpoint | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as IngestCheckpoint;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+export async function writeCheckpoint(
+  filePath: string,
+  checkpoint: IngestCheckpoint,
+) {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(checkpoint, null, 2));
+}
+
+export async function clearCheckpoint(filePath: string) {
+  await rm(filePath, { force: true });
+}
+
+// with several workers in flight the checkpoint may only move past a key
+// once every key listed before it is done too, so a resumed run never skips
+// unfinished work
+export function createCheckpointTracker(
+  filePath: string,
+  base: Pick<IngestCheckpoint, "prefix" | "since">,
+) {
+  const inFlight: string[] = [];
+  const finished = new Set<string>();
+  let writes: Promise<void> = Promise.resolve();
+
+  return {
+    // call in listing order
+    start(key: string) {
+      inFlight.push(key);
+    },
+    finish(key: string): Promise<void> {
+      finished.add(key);
+
+      let lastKey: string | undefined;
+      while (inFlight.length > 0 && finished.has(inFlight[0])) {
+        lastKey = inFlight.shift();
+        finished.delete(lastKey as string);
+      }
+
+      if (lastKey) {
+        const checkpoint: IngestCheckpoint = {
+          ...base,
+          lastKey,
+          updatedAt: new Date().toISOString(),
+        };
+        writes = writes.then(() => writeCheckpoint(filePath, checkpoint));
+      }
+
+      return writes;
+    },
+    flush(): Promise<void> {
+      return writes;
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { parseArgs } from "node:util";
+
+import { withCrops, writeDerivedImages } from "../src/lib/derived-images";
+import { allDetections } from "../src/lib/detection-rules";
+import { readPhotoMetadata } from "../src/lib/image-metadata";
+import {
+  type PhotoWrite,
+  recomputeLogoRepresentative,
+  storedPhotoWrite,
+  updateStoredPhoto,
+} from "../src/lib/index-writer";
+import { withRetry } from "../src/lib/retry";
+import { INDEX_BACKEND, source, store } from "./pipeline";
+
+// makes thumbnails and logo crops for photos indexed before the ingester
+// made them, from the stored detections, so vision isn't called again.
+// logo summaries are then pointed at their representative's crop. photos
+// indexed before EXIF was read get their metadata at the same time.
+//
+//   npm run derive-images -- --dry-run
+//   npm run derive-images
+//   npm run derive-images -- --all   # redo photos that already have them
+
+const { values: args } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    all: { type: "boolean", default: false },
+  },
+});
+
+function missingImages(photo: PhotoWrite): boolean {
+  return (
+    !photo.thumbnailKey ||
+    !photo.metadata ||
+    allDetections(photo.detections, photo.suppressedDetections).some(
+      (detection) => detection.boundingPoly && !detection.cropKey,
+    )
+  );
+}
+
+async function main() {
+  if (!source.write) {
+    throw new Error(
+      `The ${source.kind} photo source can't store thumbnails and crops.`,
+    );
+  }
+
+  const dryRun = args["dry-run"];
+  const touchedSlugs = new Set<string>();
+  let derived = 0;
+
+  console.info(`Deriving images on the ${INDEX_BACKEND} backend.`);
+
+  for (const item of await store.listPhotos()) {
+    const photo = storedPhotoWrite(item);
+    if (!args.all && !missingImages(photo)) {
+      continue;
+    }
+
+    derived += 1;
+    console.info(`${photo.photoId}: ${photo.s3Key}`);
+    if (dryRun) {
+      continue;
+    }
+
+    const { bytes } = await withRetry(() => source.read(photo.s3Key), {
+      label: `Downloading ${photo.s3Key}`,
+    });
+    const { thumbnail, crops } = await writeDerivedImages(
+      source,
+      photo.photoId,
+      bytes,
+      allDetections(photo.detections, photo.suppressedDetections),
+    );
+    const metadata =
+      photo.metadata ??
+      (await readPhotoMetadata(bytes).catch((error) => {
+        console.warn(`Couldn't read the metadata of ${photo.s3Key}`, error);
+        return {};
+      }));
+
+    await withRetry(
+      () =>
+        updateStoredPhoto(store, photo.photoId, (current) => ({
+          ...current,
+          thumbnailKey: thumbnail?.key ?? current.thumbnailKey,
+          thumbnailUrl: thumbnail?.url ?? current.thumbnailUrl,
+          metadata: current.metadata ?? metadata,
+          detections: withCrops(current.detections, crops),
+          suppressedDetections: current.suppressedDetections
+            ? withCrops(current.suppressedDetections, crops)
+            : undefined,
+        })),
+      { label: `Updating ${photo.photoId}` },
+    );
+
+    for (const detection of photo.detections) {
+      touchedSlugs.add(detection.slug);
+    }
+  }
+
+  // the representative is only replaced by a better detection, so its crop
+  // wouldn't otherwise be picked up
+  for (const slug of touchedSlugs) {
+    await withRetry(() => recomputeLogoRepresentative(store, slug), {
+      label: `Updating the ${slug} summary`,
+    });
+  }
+
+  console.info(
+    `${dryRun ? "Would derive" : "Derived"} images for ${derived} photos.`,
+  );
+}
+
+main().catch((error) => {
+  console.error("Deriving images failed", error);
+  process.exit(1);
+});
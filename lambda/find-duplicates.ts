@@ -0,0 +1,133 @@
+import { parseArgs } from "node:util";
+
+import {
+  type PhotoWrite,
+  storedPhotoWrite,
+  updateStoredPhoto,
+} from "../src/lib/index-writer";
+import {
+  DEFAULT_DUPLICATE_DISTANCE,
+  groupDuplicates,
+  type HashedPhoto,
+  perceptualHash,
+} from "../src/lib/photo-duplicates";
+import { withRetry } from "../src/lib/retry";
+import { INDEX_BACKEND, source, store } from "./pipeline";
+
+// groups near-identical photos by perceptual hash, records each group's
+// canonical photo on the others (duplicateOf) and prints the groups.
+// photos indexed before hashing are downloaded and hashed first.
+//
+//   npm run duplicates -- --dry-run
+//   npm run duplicates
+//   npm run duplicates -- --max-distance 8
+
+const { values: args } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    "max-distance": {
+      type: "string",
+      default: String(DEFAULT_DUPLICATE_DISTANCE),
+    },
+  },
+});
+
+async function hashPhoto(photo: PhotoWrite): Promise<string | undefined> {
+  try {
+    const { bytes } = await withRetry(() => source.read(photo.s3Key), {
+      label: `Downloading ${photo.s3Key}`,
+    });
+    return await perceptualHash(bytes);
+  } catch (error) {
+    console.warn(`Skipping ${photo.photoId}: couldn't hash it`, error);
+    return undefined;
+  }
+}
+
+async function save(
+  photoId: string,
+  change: Pick<PhotoWrite, "perceptualHash" | "duplicateOf">,
+) {
+  await withRetry(
+    () =>
+      updateStoredPhoto(store, photoId, (current) =>
+        current.perceptualHash === change.perceptualHash &&
+        current.duplicateOf === change.duplicateOf
+          ? current
+          : { ...current, ...change },
+      ),
+    { label: `Updating ${photoId}` },
+  );
+}
+
+async function main() {
+  const maxDistance = Number(args["max-distance"]);
+  if (!Number.isInteger(maxDistance) || maxDistance < 0) {
+    throw new Error("--max-distance must be a whole number of bits.");
+  }
+
+  const dryRun = args["dry-run"];
+  const photos = (await store.listPhotos()).map((item) => ({
+    photo: storedPhotoWrite(item),
+    createdAt: typeof item.createdAt === "string" ? item.createdAt : undefined,
+  }));
+
+  console.info(
+    `Grouping ${photos.length} photos on the ${INDEX_BACKEND} backend, up to ${maxDistance} bits apart.`,
+  );
+
+  const hashed: HashedPhoto[] = [];
+  for (const { photo, createdAt } of photos) {
+    const hash = photo.perceptualHash ?? (await hashPhoto(photo));
+    if (hash) {
+      hashed.push({ photoId: photo.photoId, perceptualHash: hash, createdAt });
+    }
+  }
+
+  const groups = groupDuplicates(hashed, maxDistance);
+  const canonicalOf = new Map(
+    groups.flatMap((group) =>
+      group.duplicates.map((photoId) => [photoId, group.canonical] as const),
+    ),
+  );
+
+  for (const group of groups) {
+    console.info(
+      `${group.canonical}: ${group.duplicates.length} duplicates, up to ${group.maxDistance} bits apart`,
+    );
+    for (const photoId of group.duplicates) {
+      console.info(`  ${photoId}`);
+    }
+  }
+
+  let changed = 0;
+  const hashes = new Map(
+    hashed.map((photo) => [photo.photoId, photo.perceptualHash]),
+  );
+  for (const { photo } of photos) {
+    const change = {
+      perceptualHash: hashes.get(photo.photoId),
+      duplicateOf: canonicalOf.get(photo.photoId),
+    };
+    if (
+      change.perceptualHash === photo.perceptualHash &&
+      change.duplicateOf === photo.duplicateOf
+    ) {
+      continue;
+    }
+
+    changed += 1;
+    if (!dryRun) {
+      await save(photo.photoId, change);
+    }
+  }
+
+  console.info(
+    `Found ${groups.length} groups with ${canonicalOf.size} duplicates. ${dryRun ? "Would update" : "Updated"} ${changed} photos.`,
+  );
+}
+
+main().catch((error) => {
+  console.error("Finding duplicates failed", error);
+  process.exit(1);
+});
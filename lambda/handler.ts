@@ -0,0 +1,124 @@
+import { isHiddenKey, resolveS3Prefix } from "../src/lib/photo-sources";
+import { UPLOAD_FOLDER } from "../src/lib/photo-upload";
+import { ingestKey, removeKey, source } from "./pipeline";
+
+const bucketName = process.env.S3_BUCKET;
+const S3_PREFIX = resolveS3Prefix();
+
+// notifications only make sense for the bucket the index is built from
+if (source.kind !== "s3") {
+  throw new Error(
+    `The lambda handler needs PHOTO_SOURCE=s3, got "${source.kind}".`,
+  );
+}
+
+// the parts of the s3 / sqs notification payloads the handler reads. see
+// https://docs.aws.amazon.com/AmazonS3/latest/userguide/notification-content-structure.html
+type S3EventRecord = {
+  eventSource: "aws:s3";
+  eventName: string;
+  s3: {
+    bucket: { name: string };
+    object: { key: string };
+  };
+};
+
+type SqsRecord = {
+  eventSource: "aws:sqs";
+  messageId: string;
+  body: string;
+};
+
+type S3Event = { Records?: S3EventRecord[] };
+type SqsEvent = { Records: SqsRecord[] };
+
+export type IngestEvent = S3Event | SqsEvent;
+
+export type SqsBatchResponse = {
+  batchItemFailures: Array<{ itemIdentifier: string }>;
+};
+
+function isUploadKey(key: string): boolean {
+  return key.slice(S3_PREFIX.length).startsWith(`${UPLOAD_FOLDER}/`);
+}
+
+// object keys arrive url-encoded, with spaces as "+"
+function decodeKey(key: string): string {
+  return decodeURIComponent(key.replace(/\+/g, " "));
+}
+
+function isSqsEvent(event: IngestEvent): event is SqsEvent {
+  return event.Records?.[0]?.eventSource === "aws:sqs";
+}
+
+// returns false when any record failed
+async function handleS3Records(records: S3EventRecord[]): Promise<boolean> {
+  let succeeded = true;
+
+  for (const record of records) {
+    const key = decodeKey(record.s3.object.key);
+
+    // thumbnails and crops the ingester writes land under the prefix too
+    if (
+      record.s3.bucket.name !== bucketName ||
+      !key.startsWith(S3_PREFIX) ||
+      isHiddenKey(key.slice(S3_PREFIX.length))
+    ) {
+      console.info(`Ignoring ${record.s3.bucket.name}/${key}`);
+      continue;
+    }
+
+    if (record.eventName.startsWith("ObjectCreated:")) {
+      // the app indexes uploads itself once they are stored. ingesting them
+      // here as well would run detection twice and race that write; one
+      // that was never completed is picked up by the next bulk ingest
+      if (isUploadKey(key)) {
+        console.info(`Leaving upload ${key} to the app`);
+        continue;
+      }
+
+      succeeded = (await ingestKey(key)) && succeeded;
+    } else if (record.eventName.startsWith("ObjectRemoved:")) {
+      await removeKey(key);
+    } else {
+      console.info(`Ignoring ${record.eventName} for ${key}`);
+    }
+  }
+
+  return succeeded;
+}
+
+// sqs bodies are s3 notifications; s3's "s3:TestEvent" has no Records
+async function handleSqsRecord(record: SqsRecord): Promise<boolean> {
+  const body = JSON.parse(record.body) as S3Event;
+  return handleS3Records(body.Records ?? []);
+}
+
+// direct s3 invocations throw on failure so lambda retries them. sqs
+// batches report failed messages individually so only those are redelivered
+export async function handler(
+  event: IngestEvent,
+): Promise<SqsBatchResponse | undefined> {
+  if (isSqsEvent(event)) {
+    const batchItemFailures: SqsBatchResponse["batchItemFailures"] = [];
+
+    for (const record of event.Records) {
+      try {
+        if (!(await handleSqsRecord(record))) {
+          batchItemFailures.push({ itemIdentifier: record.messageId });
+        }
+      } catch (error) {
+        console.error(`Failed to handle message ${record.messageId}`, error);
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    }
+
+    return { batchItemFailures };
+  }
+
+  if (!(await handleS3Records(event.Records ?? []))) {
+    throw new Error("One or more objects failed to ingest");
+  }
+
+  return undefined;
+}
@@ -1,324 +1,217 @@
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import { withRetry } from "../src/lib/retry";
 import {
-  GetObjectCommand,
-  ListObjectsV2Command,
-  S3Client,
-} from "@aws-sdk/client-s3";
+  clearCheckpoint,
+  createCheckpointTracker,
+  DEFAULT_CHECKPOINT_FILE,
+  readCheckpoint,
+} from "./checkpoint";
 import {
-  BatchWriteCommand,
-  DynamoDBDocumentClient,
-  PutCommand,
-  UpdateCommand,
-} from "@aws-sdk/lib-dynamodb";
-import vision from "@google-cloud/vision";
-import { config as loadEnv } from "dotenv";
-
-import { normalizeLogoName } from "../src/lib/dynamo";
-
-// im just running this locally for now
-// will change later
-
-loadEnv({ path: ".env.local" });
-loadEnv();
-
-const REGION = process.env.AWS_REGION ?? "ap-southeast-2";
-const TABLE_NAME = process.env.DYNAMO_TABLE;
-const S3_BUCKET = process.env.S3_BUCKET;
-const S3_PREFIX = process.env.S3_PREFIX ?? "photos/";
-const S3_PUBLIC_BASE_URL = process.env.S3_PUBLIC_BASE_URL;
-const MAX_ITEMS = Number(process.env.INGEST_LIMIT ?? 100);
+  DETECTOR_RATE_LIMIT,
+  INDEX_BACKEND,
+  ingestKey,
+  keyToPhotoId,
+  type PhotoObject,
+  source,
+  store,
+} from "./pipeline";
+import { runPool } from "./pool";
+import { createProgressReporter } from "./progress";
+
+// bulk ingestion of everything in the photo source (PHOTO_SOURCE). new
+// uploads in a deployed stack are handled one at a time by the lambda
+// handler in ./handler.ts
 
-if (!TABLE_NAME) {
-  throw new Error("DYNAMO_TABLE env var is required");
-}
-
-if (!S3_BUCKET) {
-  throw new Error("S3_BUCKET env var is required");
-}
-
-const tableName = TABLE_NAME;
-const bucketName = S3_BUCKET;
-const publicBaseUrl = S3_PUBLIC_BASE_URL?.replace(/\/$/, "") ?? null;
-
-const s3 = new S3Client({ region: REGION });
-const dynamo = DynamoDBDocumentClient.from(
-  new DynamoDBClient({ region: REGION }),
-  {
-    marshallOptions: { removeUndefinedValues: true },
-  },
+const MAX_ITEMS = Number(process.env.INGEST_LIMIT ?? 100);
+const CONCURRENCY = Number(process.env.INGEST_CONCURRENCY ?? 4);
+const CHECKPOINT_FILE = path.resolve(
+  process.env.INGEST_CHECKPOINT_FILE ?? DEFAULT_CHECKPOINT_FILE,
 );
-const visionClient = new vision.ImageAnnotatorClient();
-
-type LogoDetection = {
-  name: string;
-  slug: string;
-  confidence: number;
-  boundingPoly?: Array<{ x: number; y: number }>;
-  detectionIndex: number;
-};
-
-type MappingRequest = {
-  PutRequest: {
-    Item: Record<string, unknown>;
-  };
-};
-function chunk<T>(items: T[], size: number): T[][] {
-  const buckets: T[][] = [];
-  for (let i = 0; i < items.length; i += size) {
-    buckets.push(items.slice(i, i + size));
-  }
-  return buckets;
-}
 
-function keyToPhotoId(key: string): string {
-  const trimmed = key.startsWith(S3_PREFIX) ? key.slice(S3_PREFIX.length) : key;
-  const withoutExt = trimmed.replace(/\.[^/.]+$/, "");
-  return withoutExt.replace(/[^a-zA-Z0-9_-]/g, "-");
-}
+// --since <date>  only consider objects modified after the date
+// --fresh         ignore any saved checkpoint and start from the beginning
+// --retry-failed  only reprocess keys with a failure record, clearing each
+//                 one that succeeds
+const { values: args } = parseArgs({
+  options: {
+    since: { type: "string" },
+    fresh: { type: "boolean", default: false },
+    "retry-failed": { type: "boolean", default: false },
+  },
+});
 
-function buildPublicUrl(key: string): string | undefined {
-  if (!publicBaseUrl) {
-    return undefined;
+// photos indexed before source metadata was stored fall back to comparing
+// the object's LastModified with when the photo was first indexed
+async function isUnchanged(object: PhotoObject): Promise<boolean> {
+  const stored = await withRetry(
+    () => store.getPhoto(keyToPhotoId(object.key)),
+    { label: `Loading ${object.key}` },
+  );
+  if (!stored || stored.s3Key !== object.key) {
+    return false;
   }
 
-  return `${publicBaseUrl}/${key}`;
-}
-
-async function listPhotos(): Promise<string[]> {
-  const keys: string[] = [];
-  let continuationToken: string | undefined;
-
-  do {
-    const response = await s3.send(
-      new ListObjectsV2Command({
-        Bucket: bucketName,
-        Prefix: S3_PREFIX,
-        ContinuationToken: continuationToken,
-        MaxKeys: Math.min(MAX_ITEMS, 1000),
-      }),
+  if (typeof stored.sourceETag === "string") {
+    return (
+      stored.sourceETag === object.etag &&
+      stored.sourceLastModified === object.lastModified
     );
+  }
 
-    const batchKeys = (response.Contents ?? [])
-      .filter((object) => object.Key && !object.Key.endsWith("/"))
-      .map((object) => object.Key as string);
+  return (
+    typeof stored.createdAt === "string" &&
+    object.lastModified !== undefined &&
+    object.lastModified <= stored.createdAt
+  );
+}
 
-    keys.push(...batchKeys);
-    continuationToken = response.NextContinuationToken;
+async function* failedPhotos(): AsyncGenerator<PhotoObject> {
+  const failures = await store.listIngestFailures();
+  console.info(`Retrying ${failures.length} failed photos.`);
 
-    if (keys.length >= MAX_ITEMS) {
-      break;
-    }
-  } while (continuationToken);
-
-  return keys.slice(0, MAX_ITEMS);
+  for (const failure of failures) {
+    yield { key: String(failure.SK) };
+  }
 }
 
-async function detectLogosForKey(key: string): Promise<LogoDetection[]> {
-  const getObjectResponse = await s3.send(
-    new GetObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-    }),
-  );
+async function retryFailed() {
+  const progress = createProgressReporter(MAX_ITEMS);
+  let started = 0;
 
-  const body = getObjectResponse.Body;
-  if (!body) {
-    throw new Error(`S3 object body missing for ${key}`);
+  async function* queue(): AsyncGenerator<PhotoObject> {
+    for await (const object of failedPhotos()) {
+      progress.listed();
+      yield object;
+    }
+    progress.finishListing();
   }
 
-  const bytes = await asBuffer(body);
-  const [result] = await visionClient.logoDetection({
-    image: { content: bytes },
+  await runPool(queue(), {
+    concurrency: CONCURRENCY,
+    shouldStop: () => started >= MAX_ITEMS,
+    worker: async ({ key }) => {
+      started += 1;
+      progress.record(
+        (await ingestKey(key, { dropMissing: true })) ? "processed" : "failed",
+      );
+    },
   });
-  console.table(result);
-  const annotations = result.logoAnnotations ?? [];
-  console.log(`Detected ${annotations.length} logos for ${key}`);
-
-  return annotations
-    .filter((annotation) => annotation.description)
-    .map((annotation, i) => {
-      const name = annotation.description ?? "";
-      console.log(`${i} detected logo: ${name}`);
-      return {
-        name,
-        slug: normalizeLogoName(name),
-        confidence: annotation.score ?? 0,
-        boundingPoly: annotation.boundingPoly?.vertices?.map((vertex) => ({
-          x: vertex?.x ?? 0,
-          y: vertex?.y ?? 0,
-        })),
-        detectionIndex: i,
-      };
-    });
-}
 
-async function asBuffer(stream: unknown): Promise<Buffer> {
-  if (!stream) {
-    return Buffer.alloc(0);
-  }
+  const counts = progress.stop();
+  console.info(
+    `Recovered ${counts.processed} photos, ${counts.failed} still failing.`,
+  );
+}
 
-  if (Buffer.isBuffer(stream)) {
-    return stream;
+async function resumePoint(since?: string): Promise<string | undefined> {
+  if (args.fresh) {
+    await clearCheckpoint(CHECKPOINT_FILE);
+    return undefined;
   }
 
-  if (stream instanceof Uint8Array) {
-    return Buffer.from(stream);
+  const checkpoint = await readCheckpoint(CHECKPOINT_FILE);
+  if (!checkpoint) {
+    return undefined;
   }
 
-  const candidate = stream as {
-    transformToByteArray?: () => Promise<Uint8Array>;
-  };
-  if (typeof candidate.transformToByteArray === "function") {
-    return Buffer.from(await candidate.transformToByteArray());
+  if (checkpoint.prefix !== source.location || checkpoint.since !== since) {
+    console.warn(
+      `Ignoring checkpoint for ${checkpoint.prefix} (since ${checkpoint.since ?? "any time"}); it was written by a different run.`,
+    );
+    return undefined;
   }
 
-  return new Promise((resolve, reject) => {
-    const readable = stream as NodeJS.ReadableStream;
-    const chunks: Buffer[] = [];
-    readable.on("data", (chunk) =>
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)),
-    );
-    readable.on("end", () => resolve(Buffer.concat(chunks)));
-    readable.on("error", reject);
-  });
+  console.info(`Resuming after ${checkpoint.lastKey}`);
+  return checkpoint.lastKey;
 }
 
-async function writeMappingBatch(batch: MappingRequest[]) {
-  if (batch.length === 0) {
+async function main() {
+  if (args["retry-failed"]) {
+    console.info(`Writing logo index to the ${INDEX_BACKEND} backend.`);
+    await retryFailed();
     return;
   }
 
-  let requestItems: Record<string, MappingRequest[]> | undefined = {
-    [tableName]: batch,
-  };
-
-  do {
-    const response = await dynamo.send(
-      new BatchWriteCommand({
-        RequestItems: requestItems,
-      }),
-    );
-
-    const unprocessed = (response.UnprocessedItems?.[tableName] ??
-      []) as MappingRequest[];
-    if (unprocessed.length === 0) {
-      return;
-    }
+  const since = args.since ? new Date(args.since) : undefined;
+  if (since && Number.isNaN(since.getTime())) {
+    throw new Error(`--since must be a date, got "${args.since}"`);
+  }
 
-    console.warn(
-      `Retrying ${unprocessed.length} unprocessed mapping writes...`,
-    );
-    requestItems = { [tableName]: unprocessed };
-  } while (requestItems && requestItems[tableName].length > 0);
-}
+  const sinceIso = since?.toISOString();
+  const startAfter = await resumePoint(sinceIso);
+  const checkpoint = createCheckpointTracker(CHECKPOINT_FILE, {
+    prefix: source.location,
+    since: sinceIso,
+  });
+  const progress = createProgressReporter(MAX_ITEMS);
 
-async function savePhoto(key: string, logos: LogoDetection[]) {
-  const photoId = keyToPhotoId(key);
-  const publicUrl = buildPublicUrl(key);
-  const now = new Date().toISOString();
-
-  await dynamo.send(
-    new PutCommand({
-      TableName: tableName,
-      Item: {
-        PK: "PHOTO",
-        SK: photoId,
-        _type: "photo",
-        s3Key: key,
-        publicUrl,
-        detectedLogos: logos,
-        createdAt: now,
-      },
-    }),
+  console.info(`Writing logo index to the ${INDEX_BACKEND} backend.`);
+  console.info(
+    sinceIso
+      ? `Listing photos from ${source.location} modified after ${sinceIso}...`
+      : `Listing photos from ${source.location}...`,
+  );
+  console.info(
+    `Running ${CONCURRENCY} workers, detector limited to ${DETECTOR_RATE_LIMIT}/s.`,
   );
 
-  if (logos.length === 0) {
-    return;
-  }
+  let started = 0;
+  let reachedLimit = false;
 
-  const mappingWrites: MappingRequest[] = logos.map((logo) => {
-    const sortKey = `${photoId}#${logo.detectionIndex
-      .toString()
-      .padStart(4, "0")}`;
-    const item: Record<string, unknown> = {
-      PK: `LOGO#${logo.slug}`,
-      SK: sortKey,
-      _type: "logo#photo",
-      photoId,
-      confidence: logo.confidence,
-      detectionIndex: logo.detectionIndex,
-    };
-
-    if (publicUrl) {
-      item.publicUrl = publicUrl;
+  async function* queue(): AsyncGenerator<PhotoObject> {
+    for await (const object of source.list(startAfter)) {
+      checkpoint.start(object.key);
+      progress.listed();
+      yield object;
     }
+    progress.finishListing();
+  }
 
-    return {
-      PutRequest: {
-        Item: item,
-      },
-    };
-  });
+  async function handle(object: PhotoObject) {
+    const { key } = object;
+    const tooOld =
+      sinceIso !== undefined &&
+      (object.lastModified === undefined || object.lastModified <= sinceIso);
 
-  for (const batch of chunk(mappingWrites, 25)) {
-    await writeMappingBatch(batch);
-  }
+    if (tooOld || (await isUnchanged(object))) {
+      progress.record("skipped");
+      await checkpoint.finish(key);
+      return;
+    }
 
-  const slugSummaries = new Map<
-    string,
-    { maxConfidence: number; name: string }
-  >();
-
-  for (const logo of logos) {
-    const current = slugSummaries.get(logo.slug);
-    if (!current || logo.confidence > current.maxConfidence) {
-      slugSummaries.set(logo.slug, {
-        maxConfidence: logo.confidence,
-        name: logo.name,
-      });
+    if (started >= MAX_ITEMS) {
+      // left unfinished so the checkpoint stops just before it
+      reachedLimit = true;
+      return;
     }
-  }
 
-  for (const [slug, summary] of slugSummaries) {
-    await dynamo.send(
-      new UpdateCommand({
-        TableName: tableName,
-        Key: {
-          PK: "LOGO",
-          SK: slug,
-        },
-        UpdateExpression:
-          "SET displayName = if_not_exists(displayName, :name), topConfidence = if_not_exists(topConfidence, :confidence) ADD #total :inc",
-        ExpressionAttributeValues: {
-          ":name": summary.name,
-          ":confidence": summary.maxConfidence,
-          ":inc": 1,
-        },
-        ExpressionAttributeNames: {
-          "#total": "totalPhotos",
-        },
-      }),
-    );
+    started += 1;
+    progress.record((await ingestKey(key)) ? "processed" : "failed");
+    await checkpoint.finish(key);
   }
-}
 
-async function main() {
-  console.info("Listing photos from S3...");
-  const keys = await listPhotos();
-  console.info(`Found ${keys.length} objects to process.`);
-
-  for (const key of keys) {
-    console.info(`Processing ${key}...`);
-
-    try {
-      const logos = await detectLogosForKey(key);
-      await savePhoto(key, logos);
-      console.info(`Stored ${logos.length} logos for ${key}`);
-    } catch (error) {
-      console.error(`Failed to process ${key}`, error);
-    }
+  await runPool(queue(), {
+    concurrency: CONCURRENCY,
+    worker: handle,
+    shouldStop: () => reachedLimit,
+  });
+  await checkpoint.flush();
+
+  const counts = progress.stop();
+  console.info(
+    `Processed ${counts.processed} objects, ${counts.failed} failed, skipped ${counts.skipped} unchanged.`,
+  );
+
+  if (reachedLimit) {
+    console.info(
+      `Stopped at INGEST_LIMIT (${MAX_ITEMS}); run again to continue from the checkpoint.`,
+    );
+    return;
   }
 
+  await clearCheckpoint(CHECKPOINT_FILE);
   console.info("Ingestion complete.");
 }
 
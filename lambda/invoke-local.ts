@@ -0,0 +1,25 @@
+import { readFile } from "node:fs/promises";
+
+import { handler, type IngestEvent } from "./handler";
+
+// feeds a recorded event to the handler:
+//   npm run invoke -- path/to/event.json
+
+async function main() {
+  const eventPath = process.argv[2];
+  if (!eventPath) {
+    throw new Error("Usage: npm run invoke -- <event.json>");
+  }
+
+  const event = JSON.parse(await readFile(eventPath, "utf8")) as IngestEvent;
+  const result = await handler(event);
+
+  if (result) {
+    console.info(JSON.stringify(result, null, 2));
+  }
+}
+
+main().catch((error) => {
+  console.error("Invocation failed", error);
+  process.exit(1);
+});
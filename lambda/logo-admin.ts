@@ -0,0 +1,66 @@
+import { parseArgs } from "node:util";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { config as loadEnv } from "dotenv";
+
+import { createLogoIndexStore } from "../src/lib/index-store";
+import { mergeLogos, renameLogo } from "../src/lib/logo-admin";
+
+// merges and renames logos in the index.
+//
+//   npm run logos -- merge coca-cola-company coca-cola --dry-run
+//   npm run logos -- merge coca-cola-company coca-cola
+//   npm run logos -- rename coca-cola "Coca-Cola"
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+const REGION = process.env.AWS_REGION ?? "ap-southeast-2";
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+const [command, ...rest] = positionals;
+
+const store = createLogoIndexStore({
+  dynamo: {
+    client: DynamoDBDocumentClient.from(
+      new DynamoDBClient({ region: REGION }),
+      {
+        marshallOptions: { removeUndefinedValues: true },
+      },
+    ),
+  },
+});
+
+async function main() {
+  if (command === "merge" && rest.length === 2) {
+    const result = await mergeLogos(store, rest[0], rest[1], {
+      dryRun: args["dry-run"],
+    });
+    console.info(
+      `${result.dryRun ? "Would move" : "Moved"} ${result.photos} photos and ${result.aliases} aliases from ${result.from} to ${result.into}.`,
+    );
+    return;
+  }
+
+  if (command === "rename" && rest.length === 2) {
+    const result = await renameLogo(store, rest[0], rest[1]);
+    console.info(
+      `Renamed ${result.slug} from "${result.previousName}" to "${result.displayName}".`,
+    );
+    return;
+  }
+
+  throw new Error(
+    "Usage: npm run logos -- merge <from> <into> [--dry-run] | rename <logo> <name>",
+  );
+}
+
+main().catch((error) => {
+  console.error("Logo command failed", error);
+  process.exit(1);
+});
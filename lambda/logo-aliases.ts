@@ -0,0 +1,103 @@
+import { parseArgs } from "node:util";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { config as loadEnv } from "dotenv";
+
+import { createLogoIndexStore } from "../src/lib/index-store";
+import { normalizeLogoName } from "../src/lib/logo-names";
+
+// maintains the alias table the logo search resolves names through.
+//
+//   npm run aliases -- list
+//   npm run aliases -- add "Coke" coca-cola
+//   npm run aliases -- remove coke
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+const REGION = process.env.AWS_REGION ?? "ap-southeast-2";
+
+const { positionals } = parseArgs({ allowPositionals: true });
+const [command, ...rest] = positionals;
+
+const store = createLogoIndexStore({
+  dynamo: {
+    client: DynamoDBDocumentClient.from(
+      new DynamoDBClient({ region: REGION }),
+      {
+        marshallOptions: { removeUndefinedValues: true },
+      },
+    ),
+  },
+});
+
+async function list() {
+  const aliases = await store.listLogoAliases();
+  if (aliases.length === 0) {
+    console.info("No aliases.");
+    return;
+  }
+
+  console.table(
+    aliases.map((item) => ({
+      alias: item.SK,
+      name: item.displayName,
+      logo: item.slug,
+    })),
+  );
+}
+
+async function add(name: string, target: string) {
+  const alias = normalizeLogoName(name);
+  const slug = normalizeLogoName(target);
+  if (!alias || !slug || alias === slug) {
+    throw new Error(`Can't alias "${name}" to "${target}".`);
+  }
+
+  const [logos, aliases] = await Promise.all([
+    store.listLogos(),
+    store.listLogoAliases(),
+  ]);
+
+  // an alias named after a real logo would hide it from searches, and
+  // aliases of aliases are never followed
+  if (logos.some((logo) => logo.SK === alias && Number(logo.totalPhotos) > 0)) {
+    throw new Error(`"${alias}" is already a logo with photos.`);
+  }
+
+  if (aliases.some((item) => item.SK === slug)) {
+    throw new Error(`"${slug}" is itself an alias; point at its logo instead.`);
+  }
+
+  if (!logos.some((logo) => logo.SK === slug)) {
+    console.warn(`No logo "${slug}" has been indexed yet.`);
+  }
+
+  await store.putLogoAlias({ alias, displayName: name.trim(), slug });
+  console.info(`${alias} -> ${slug}`);
+}
+
+async function remove(name: string) {
+  const alias = normalizeLogoName(name);
+  await store.deleteLogoAlias(alias);
+  console.info(`Removed alias ${alias}`);
+}
+
+async function main() {
+  if (command === "list" && rest.length === 0) {
+    await list();
+  } else if (command === "add" && rest.length === 2) {
+    await add(rest[0], rest[1]);
+  } else if (command === "remove" && rest.length === 1) {
+    await remove(rest[0]);
+  } else {
+    throw new Error(
+      "Usage: npm run aliases -- list | add <alias> <logo> | remove <alias>",
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error("Alias command failed", error);
+  process.exit(1);
+});
@@ -0,0 +1,324 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  ScanCommand,
+  type ScanCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
+import { config as loadEnv } from "dotenv";
+
+import { getTableName } from "../src/lib/dynamo";
+import {
+  batchWrite,
+  DEFAULT_INDEX_FILE,
+  type DynamoTables,
+  resolveLogoIndexBackend,
+  type WriteRequest,
+} from "../src/lib/index-store";
+import {
+  classifyItem,
+  type IndexItem,
+  type ItemKind,
+  SCHEMA_VERSION,
+  upgradeItem,
+} from "../src/lib/schema";
+
+// rewrites every item in the logo index to the current schema version.
+//
+//   npm run migrate -- --dry-run
+//   npm run migrate -- --target-table logo-index            (merge into one)
+//   npm run migrate -- --target-photos p --target-logos l --target-photo-logos m
+//                                                          (split into three)
+//
+// source tables come from the usual DYNAMO_TABLE_* / DYNAMO_TABLE variables.
+// items copied to a different table stay in the source unless --prune is set.
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+const REGION = process.env.AWS_REGION ?? "ap-southeast-2";
+
+type KindReport = {
+  scanned: number;
+  upgraded: number;
+  moved: number;
+  unchanged: number;
+};
+
+type MigrationReport = {
+  kinds: Record<ItemKind, KindReport>;
+  unknown: number;
+  writes: Map<string, number>;
+  deletes: Map<string, number>;
+};
+
+const { values: args } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    prune: { type: "boolean", default: false },
+    "target-table": { type: "string" },
+    "target-photos": { type: "string" },
+    "target-logos": { type: "string" },
+    "target-photo-logos": { type: "string" },
+  },
+});
+
+const dryRun = args["dry-run"] ?? false;
+
+function emptyReport(): MigrationReport {
+  const kind = (): KindReport => ({
+    scanned: 0,
+    upgraded: 0,
+    moved: 0,
+    unchanged: 0,
+  });
+
+  return {
+    kinds: {
+      photo: kind(),
+      logo: kind(),
+      "photo-logo": kind(),
+      "ingest-failure": kind(),
+      "logo-alias": kind(),
+    },
+    unknown: 0,
+    writes: new Map(),
+    deletes: new Map(),
+  };
+}
+
+function increment(counts: Map<string, number>, key: string, by = 1) {
+  counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+function printReport(report: MigrationReport) {
+  console.info(`Schema version ${SCHEMA_VERSION} migration report`);
+  console.table(report.kinds);
+
+  if (report.unknown > 0) {
+    console.warn(
+      `${report.unknown} items with an unrecognised PK were skipped.`,
+    );
+  }
+
+  for (const [target, count] of report.writes) {
+    console.info(
+      `${dryRun ? "Would write" : "Wrote"} ${count} items to ${target}`,
+    );
+  }
+
+  for (const [source, count] of report.deletes) {
+    console.info(
+      `${dryRun ? "Would delete" : "Deleted"} ${count} items from ${source}`,
+    );
+  }
+
+  if (dryRun) {
+    console.info("Dry run: nothing was written.");
+  }
+}
+
+// logo mappings are upgraded from their photo, which may sit in another
+// table
+function photosById(items: IndexItem[]): Map<string, IndexItem> {
+  return new Map(
+    items
+      .filter((item) => classifyItem(item) === "photo")
+      .map((item) => [String(item.SK), item] as const),
+  );
+}
+
+function tableForKind(tables: DynamoTables, kind: ItemKind): string {
+  return {
+    photo: tables.photos,
+    logo: tables.logos,
+    "photo-logo": tables.photoLogos,
+    "ingest-failure": tables.photos,
+    "logo-alias": tables.logos,
+  }[kind];
+}
+
+function resolveTargetTables(source: DynamoTables): DynamoTables {
+  const merged = args["target-table"];
+
+  return {
+    photos: merged ?? args["target-photos"] ?? source.photos,
+    logos: merged ?? args["target-logos"] ?? source.logos,
+    photoLogos: merged ?? args["target-photo-logos"] ?? source.photoLogos,
+  };
+}
+
+async function scanTable(
+  client: DynamoDBDocumentClient,
+  tableName: string,
+): Promise<IndexItem[]> {
+  const items: IndexItem[] = [];
+  let exclusiveStartKey: ScanCommandOutput["LastEvaluatedKey"];
+
+  do {
+    const response = await client.send(
+      new ScanCommand({
+        TableName: tableName,
+        ExclusiveStartKey: exclusiveStartKey,
+      }),
+    );
+
+    items.push(...(response.Items ?? []));
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
+
+async function migrateDynamo(report: MigrationReport) {
+  const client = DynamoDBDocumentClient.from(
+    new DynamoDBClient({ region: REGION }),
+    {
+      marshallOptions: { removeUndefinedValues: true },
+    },
+  );
+
+  const sourceTables: DynamoTables = {
+    photos: getTableName("photos"),
+    logos: getTableName("logos"),
+    photoLogos: getTableName("photo-logos"),
+  };
+  const targetTables = resolveTargetTables(sourceTables);
+
+  const writes = new Map<string, WriteRequest[]>();
+  const deletes = new Map<string, WriteRequest[]>();
+
+  const queue = (requests: Map<string, WriteRequest[]>, table: string) => {
+    const pending = requests.get(table) ?? [];
+    requests.set(table, pending);
+    return pending;
+  };
+
+  const scanned = new Map<string, IndexItem[]>();
+  for (const sourceTable of new Set(Object.values(sourceTables))) {
+    console.info(`Scanning ${sourceTable}...`);
+    scanned.set(sourceTable, await scanTable(client, sourceTable));
+  }
+
+  const photos = photosById([...scanned.values()].flat());
+
+  for (const [sourceTable, items] of scanned) {
+    for (const item of items) {
+      const kind = classifyItem(item);
+      if (!kind) {
+        report.unknown += 1;
+        continue;
+      }
+
+      const counts = report.kinds[kind];
+      counts.scanned += 1;
+
+      const targetTable = tableForKind(targetTables, kind);
+      const moved = targetTable !== sourceTable;
+      const upgraded = upgradeItem(item, photos);
+
+      if (!upgraded && !moved) {
+        counts.unchanged += 1;
+        continue;
+      }
+
+      if (upgraded) {
+        counts.upgraded += 1;
+      }
+
+      queue(writes, targetTable).push({
+        PutRequest: { Item: upgraded ?? item },
+      });
+      increment(report.writes, targetTable);
+
+      if (moved) {
+        counts.moved += 1;
+
+        if (args.prune) {
+          queue(deletes, sourceTable).push({
+            DeleteRequest: {
+              Key: { PK: String(item.PK), SK: String(item.SK) },
+            },
+          });
+          increment(report.deletes, sourceTable);
+        }
+      }
+    }
+  }
+
+  if (dryRun) {
+    return;
+  }
+
+  for (const [table, requests] of writes) {
+    await batchWrite(client, table, requests);
+  }
+
+  for (const [table, requests] of deletes) {
+    await batchWrite(client, table, requests);
+  }
+}
+
+async function migrateFile(report: MigrationReport) {
+  if (
+    args["target-table"] ||
+    args["target-photos"] ||
+    args["target-logos"] ||
+    args["target-photo-logos"]
+  ) {
+    throw new Error("Table targets only apply to the dynamo backend.");
+  }
+
+  const filePath = path.resolve(
+    process.env.LOGO_INDEX_FILE ?? DEFAULT_INDEX_FILE,
+  );
+  const parsed = JSON.parse(await readFile(filePath, "utf8")) as {
+    items: IndexItem[];
+  };
+
+  const photos = photosById(parsed.items);
+  const items = parsed.items.map((item) => {
+    const kind = classifyItem(item);
+    if (!kind) {
+      report.unknown += 1;
+      return item;
+    }
+
+    const counts = report.kinds[kind];
+    counts.scanned += 1;
+
+    const upgraded = upgradeItem(item, photos);
+    if (!upgraded) {
+      counts.unchanged += 1;
+      return item;
+    }
+
+    counts.upgraded += 1;
+    increment(report.writes, filePath);
+    return upgraded;
+  });
+
+  if (!dryRun) {
+    await writeFile(filePath, JSON.stringify({ items }, null, 2));
+  }
+}
+
+async function main() {
+  const backend = resolveLogoIndexBackend();
+  const report = emptyReport();
+
+  if (backend === "file") {
+    await migrateFile(report);
+  } else {
+    await migrateDynamo(report);
+  }
+
+  printReport(report);
+}
+
+main().catch((error) => {
+  console.error("Migration failed", error);
+  process.exit(1);
+});
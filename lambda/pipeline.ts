@@ -0,0 +1,184 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { config as loadEnv } from "dotenv";
+
+import { removeDerivedImages } from "../src/lib/derived-images";
+import type { DetectionRules } from "../src/lib/detection-rules";
+import { createLogoDetector } from "../src/lib/detectors";
+import {
+  createLogoIndexStore,
+  resolveLogoIndexBackend,
+} from "../src/lib/index-store";
+import { removePhoto as deletePhoto } from "../src/lib/index-writer";
+import {
+  createPhotoIngester,
+  type DetectedPhoto,
+} from "../src/lib/photo-ingest";
+import {
+  createPhotoSource,
+  PhotoNotFoundError,
+  type PhotoObject,
+} from "../src/lib/photo-sources";
+import { withRetry } from "../src/lib/retry";
+
+// everything one photo goes through on its way into (or out of) the index,
+// shared by the bulk CLI and the lambda handler. the detection and saving
+// itself lives in src/lib/photo-ingest.ts, which app uploads use too
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+const REGION = process.env.AWS_REGION ?? "ap-southeast-2";
+// detector calls per second; vision's default quota is 1800 a minute
+export const DETECTOR_RATE_LIMIT = Number(
+  process.env.DETECTOR_RATE_LIMIT ?? 10,
+);
+
+export const INDEX_BACKEND = resolveLogoIndexBackend();
+
+export const source = createPhotoSource();
+export const store = createLogoIndexStore({
+  backend: INDEX_BACKEND,
+  dynamo: {
+    client: DynamoDBDocumentClient.from(
+      new DynamoDBClient({ region: REGION }),
+      {
+        marshallOptions: { removeUndefinedValues: true },
+      },
+    ),
+  },
+});
+
+const ingester = createPhotoIngester({
+  store,
+  source,
+  detector: createLogoDetector(),
+  rulesFile: process.env.DETECTION_RULES_FILE,
+  detectorRateLimit: DETECTOR_RATE_LIMIT,
+});
+
+export type { DetectedPhoto, PhotoObject };
+
+export function keyToPhotoId(key: string): string {
+  return source.photoId(key);
+}
+
+export async function detectLogosForKey(key: string): Promise<DetectedPhoto> {
+  const detected = await ingester.detectKey(key);
+  console.log(`Detected ${detected.logos.length} logos for ${key}`);
+
+  for (const detection of detected.logos) {
+    console.log(`${detection.detectionIndex} detected logo: ${detection.name}`);
+  }
+
+  return detected;
+}
+
+export function detectionRules(): Promise<DetectionRules> {
+  return ingester.detectionRules();
+}
+
+export async function savePhoto(detected: DetectedPhoto) {
+  const { key } = detected.object;
+  const { photo, result } = await ingester.save(detected);
+  const suppressedDetections = photo.suppressedDetections ?? [];
+
+  if (suppressedDetections.length > 0) {
+    console.info(
+      `Suppressed ${suppressedDetections.length} detections for ${key}: ${suppressedDetections
+        .map((detection) => `${detection.slug} (${detection.reason})`)
+        .join(", ")}`,
+    );
+  }
+
+  if (result.addedSlugs.length > 0 || result.removedSlugs.length > 0) {
+    console.info(
+      `Logo changes for ${key}: +[${result.addedSlugs.join(", ")}] -[${result.removedSlugs.join(", ")}]`,
+    );
+  }
+}
+
+async function recordFailure(key: string, error: unknown) {
+  try {
+    await store.recordIngestFailure({
+      key,
+      errorName: error instanceof Error ? error.name : typeof error,
+      message: error instanceof Error ? error.message : String(error),
+      failedAt: new Date().toISOString(),
+    });
+  } catch (recordError) {
+    console.error(`Could not record the failure for ${key}`, recordError);
+  }
+}
+
+// a photo that was indexed stays indexed even if its old failure record
+// can't be cleared; a later run clears it
+async function clearFailure(key: string) {
+  try {
+    await store.clearIngestFailure(key);
+  } catch (clearError) {
+    console.error(`Could not clear the failure for ${key}`, clearError);
+  }
+}
+
+// detects, saves and keeps the failure records in step: a failure is added
+// to (or its attempt count bumped), a success clears any earlier one
+export async function ingestKey(
+  key: string,
+  options: { dropMissing?: boolean } = {},
+): Promise<boolean> {
+  console.info(`Processing ${key}...`);
+
+  let detected: DetectedPhoto;
+  try {
+    detected = await detectLogosForKey(key);
+    await withRetry(() => savePhoto(detected), {
+      label: `Saving ${key}`,
+    });
+  } catch (error) {
+    if (options.dropMissing && error instanceof PhotoNotFoundError) {
+      console.warn(`${key} no longer exists; dropping its failure record.`);
+      await clearFailure(key);
+      return false;
+    }
+
+    console.error(`Failed to process ${key}`, error);
+    await recordFailure(key, error);
+    return false;
+  }
+
+  await clearFailure(key);
+  console.info(`Stored ${detected.logos.length} logos for ${key}`);
+  return true;
+}
+
+// takes a deleted object's photo out of the index: the photo item, its
+// mappings and its contribution to every logo count go in one transaction.
+// its thumbnail and crops are deleted after that
+export async function removeKey(key: string): Promise<boolean> {
+  console.info(`Removing ${key}...`);
+
+  const photoId = keyToPhotoId(key);
+  const result = await withRetry(() => deletePhoto(store, photoId), {
+    label: `Removing ${key}`,
+  });
+  await clearFailure(key);
+
+  try {
+    await withRetry(() => removeDerivedImages(source, photoId), {
+      label: `Removing the derived images of ${key}`,
+    });
+  } catch (error) {
+    console.warn(`Could not remove the derived images of ${key}`, error);
+  }
+
+  if (!result) {
+    console.info(`${key} was not indexed; nothing to remove.`);
+    return false;
+  }
+
+  console.info(
+    `Removed ${key}; logo counts decremented for [${result.removedSlugs.join(", ")}]`,
+  );
+  return true;
+}
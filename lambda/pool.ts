@@ -0,0 +1,30 @@
+export type PoolOptions<T> = {
+  concurrency: number;
+  worker: (item: T) => Promise<void>;
+  // checked before each item is pulled; once true the pool drains and stops
+  shouldStop?: () => boolean;
+};
+
+// runs `worker` over `source` with at most `concurrency` items in flight.
+// async generators queue concurrent next() calls, so items are handed out
+// in source order
+export async function runPool<T>(
+  source: AsyncIterable<T>,
+  options: PoolOptions<T>,
+) {
+  const iterator = source[Symbol.asyncIterator]();
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+
+  async function runWorker() {
+    while (!options.shouldStop?.()) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+
+      await options.worker(next.value);
+    }
+  }
+
+  await Promise.all(Array.from({ length: concurrency }, runWorker));
+}
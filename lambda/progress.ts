@@ -0,0 +1,63 @@
+export type Outcome = "processed" | "skipped" | "failed";
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// logs throughput and an ETA every `intervalMs`. the total isn't known while
+// S3 is still being listed, so until then the ETA is against the run limit
+export function createProgressReporter(limit: number, intervalMs = 10_000) {
+  const startedAt = Date.now();
+  const counts: Record<Outcome, number> = {
+    processed: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  let listed = 0;
+  let listingDone = false;
+
+  function line(): string {
+    const elapsed = Date.now() - startedAt;
+    const attempted = counts.processed + counts.failed;
+    const rate = attempted / Math.max(elapsed / 1000, 0.001);
+    const pendingListed = listed - attempted - counts.skipped;
+    const remaining = listingDone
+      ? Math.min(pendingListed, limit - attempted)
+      : limit - attempted;
+    const eta =
+      rate > 0 ? formatDuration((Math.max(remaining, 0) / rate) * 1000) : "?";
+    const target = listingDone ? "" : ` (up to ${limit})`;
+
+    return `[progress] ${attempted} photos${target}, ${counts.failed} failed, ${counts.skipped} skipped, ${rate.toFixed(2)}/s, ETA ${eta}, elapsed ${formatDuration(elapsed)}`;
+  }
+
+  const timer = setInterval(() => console.info(line()), intervalMs);
+  timer.unref();
+
+  return {
+    listed() {
+      listed += 1;
+    },
+    finishListing() {
+      listingDone = true;
+    },
+    record(outcome: Outcome) {
+      counts[outcome] += 1;
+    },
+    stop() {
+      clearInterval(timer);
+      console.info(line());
+      return { ...counts };
+    },
+  };
+}
@@ -1,3 +1,4 @@
+import { existsSync, readFileSync } from "node:fs";
 import type { NextConfig } from "next";
 import type { RemotePattern } from "next/dist/shared/lib/image-config";
 
@@ -12,6 +13,51 @@ const remotePatterns: RemotePattern[] = baseImageUrl
     ]
   : [];
 
+// without a public base, photos in the bucket are shown through presigned
+// urls on the bucket's own S3 endpoint; see src/lib/image-urls.ts
+const bucket = process.env.S3_BUCKET;
+if (!baseImageUrl && (process.env.PHOTO_SOURCE ?? "s3") === "s3" && bucket) {
+  const region = process.env.AWS_REGION ?? "ap-southeast-2";
+
+  // the sdk addresses buckets with dots in their name by path
+  remotePatterns.push(
+    bucket.includes(".")
+      ? {
+          protocol: "https",
+          hostname: `s3.${region}.amazonaws.com`,
+          pathname: `/${bucket}/**`,
+        }
+      : {
+          protocol: "https",
+          hostname: `${bucket}.s3.${region}.amazonaws.com`,
+        },
+  );
+}
+
+// photos indexed from a url list are shown from wherever they were fetched
+const urlList = process.env.PHOTO_URL_LIST;
+if (process.env.PHOTO_SOURCE === "http" && urlList && existsSync(urlList)) {
+  const seen = new Set<string>();
+
+  for (const line of readFileSync(urlList, "utf8").split(/\r?\n/)) {
+    // comment lines never parse as a url
+    if (!URL.canParse(line.trim())) {
+      continue;
+    }
+
+    const { protocol, hostname } = new URL(line.trim());
+    if (seen.has(`${protocol}//${hostname}`)) {
+      continue;
+    }
+
+    seen.add(`${protocol}//${hostname}`);
+    remotePatterns.push({
+      protocol: protocol === "http:" ? "http" : "https",
+      hostname,
+    });
+  }
+}
+
 const nextConfig: NextConfig = {
   images: {
     remotePatterns,
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getLogoIndexStore } from "@/lib/index-store";
+import {
+  InvalidLogoChangeError,
+  LogoNotFoundError,
+  mergeLogos,
+} from "@/lib/logo-admin";
+
+type MergeBody = {
+  from?: unknown;
+  into?: unknown;
+  dryRun?: unknown;
+};
+
+// POST { "from": "coca-cola-company", "into": "coca-cola", "dryRun": true }
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as MergeBody;
+    if (typeof body.from !== "string" || typeof body.into !== "string") {
+      return NextResponse.json(
+        { error: "from and into are required" },
+        { status: 400 },
+      );
+    }
+
+    const result = await mergeLogos(getLogoIndexStore(), body.from, body.into, {
+      dryRun: body.dryRun === true,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof LogoNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof InvalidLogoChangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Failed to merge logos", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to merge logos",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+
+import { isAdminRequest } from "@/lib/admin-auth";
+import { getLogoIndexStore } from "@/lib/index-store";
+import {
+  InvalidLogoChangeError,
+  LogoNotFoundError,
+  renameLogo,
+} from "@/lib/logo-admin";
+
+type RenameBody = {
+  slug?: unknown;
+  displayName?: unknown;
+};
+
+// POST { "slug": "coca-cola", "displayName": "Coca-Cola" }
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as RenameBody;
+    if (typeof body.slug !== "string" || typeof body.displayName !== "string") {
+      return NextResponse.json(
+        { error: "slug and displayName are required" },
+        { status: 400 },
+      );
+    }
+
+    const result = await renameLogo(
+      getLogoIndexStore(),
+      body.slug,
+      body.displayName,
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof LogoNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof InvalidLogoChangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Failed to rename logo", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to rename logo",
+      },
+      { status: 500 },
+    );
+  }
+}
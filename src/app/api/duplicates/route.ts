@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { fetchDuplicateGroups } from "@/app/repositories/logo-index";
+
+export async function GET() {
+  try {
+    const groups = await fetchDuplicateGroups();
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error("Failed to load duplicate photos", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to load duplicate photos",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { fetchIngestFailures } from "@/app/repositories/ingest-failures";
+
+export async function GET() {
+  try {
+    const failures = await fetchIngestFailures();
+
+    return NextResponse.json({ failures });
+  } catch (error) {
+    console.error("Failed to load ingest failures", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to load ingest failures",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import {
+  createLocalPhotoSource,
+  imageContentType,
+  PhotoNotFoundError,
+} from "@/lib/photo-sources";
+
+// serves the images indexed from LOCAL_PHOTO_DIR by the local photo source
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ key: string[] }> },
+) {
+  const rootDir = process.env.LOCAL_PHOTO_DIR;
+  if (!rootDir) {
+    return NextResponse.json(
+      { error: "Local photos are not configured" },
+      { status: 404 },
+    );
+  }
+
+  const params = await context.params;
+  const key = params.key.join("/");
+
+  try {
+    const { bytes, object } = await createLocalPhotoSource({ rootDir }).read(
+      key,
+    );
+
+    if (object.etag && request.headers.get("if-none-match") === object.etag) {
+      return new NextResponse(null, { status: 304 });
+    }
+
+    return new NextResponse(new Uint8Array(bytes), {
+      headers: {
+        "Content-Type": imageContentType(key) ?? "application/octet-stream",
+        "Cache-Control": "public, max-age=3600",
+        ...(object.etag ? { ETag: object.etag } : {}),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PhotoNotFoundError) {
+      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+    }
+
+    console.error("Failed to load local photo", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to load photo",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { fetchLogoSuggestions } from "@/app/repositories/logo-index";
+
+const DEFAULT_SUGGESTIONS = 10;
+const MAX_SUGGESTIONS = 50;
+
+// GET /api/logo-search?q=addidas
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const rawLimit = searchParams.get("limit");
+    const limit = rawLimit === null ? DEFAULT_SUGGESTIONS : Number(rawLimit);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTIONS) {
+      return NextResponse.json(
+        {
+          error: `limit must be a whole number from 1 to ${MAX_SUGGESTIONS}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const suggestions = await fetchLogoSuggestions(
+      searchParams.get("q") ?? "",
+      limit,
+    );
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error("Failed to search logos", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to search logos",
+      },
+      { status: 500 },
+    );
+  }
+}
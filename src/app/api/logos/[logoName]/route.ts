@@ -1,10 +1,14 @@
 import { NextResponse } from "next/server";
-
-import { normalizeLogoName } from "@/lib/dynamo";
 import { fetchPhotosByLogo } from "@/app/repositories/logo-index";
+import { normalizeLogoName } from "@/lib/dynamo";
+import { InvalidPageRequestError, parsePageParams } from "@/lib/pagination";
+import {
+  InvalidPhotoFilterError,
+  parsePhotoFilterParams,
+} from "@/lib/photo-filter";
 
 export async function GET(
-  _: Request,
+  request: Request,
   context: { params: Promise<{ logoName: string }> },
 ) {
   try {
@@ -18,14 +22,29 @@ export async function GET(
       );
     }
 
+    const { searchParams } = new URL(request.url);
+    const page = parsePageParams(searchParams);
+    const filter = parsePhotoFilterParams(searchParams);
     const normalized = normalizeLogoName(logoParam);
-    const photos = await fetchPhotosByLogo(normalized);
+    const { items, nextCursor } = await fetchPhotosByLogo(
+      normalized,
+      page,
+      filter,
+    );
 
     return NextResponse.json({
       logo: normalized,
-      photos,
+      photos: items,
+      nextCursor,
     });
   } catch (error) {
+    if (
+      error instanceof InvalidPageRequestError ||
+      error instanceof InvalidPhotoFilterError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Failed to load photos by logo", error);
 
     return NextResponse.json(
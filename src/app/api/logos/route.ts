@@ -1,13 +1,33 @@
 import { NextResponse } from "next/server";
 
-import { fetchAllLogos } from "@/app/repositories/logo-index";
+import { fetchLogosPage } from "@/app/repositories/logo-index";
+import { InvalidPageRequestError, parsePageParams } from "@/lib/pagination";
+import {
+  InvalidPhotoFilterError,
+  parsePhotoFilterParams,
+} from "@/lib/photo-filter";
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const logos = await fetchAllLogos();
+    const { searchParams } = new URL(request.url);
+    const page = parsePageParams(searchParams);
+    // logos are always in slug order, so sort doesn't apply
+    const { minConfidence, collapseDuplicates } =
+      parsePhotoFilterParams(searchParams);
+    const { items, nextCursor } = await fetchLogosPage(page, {
+      minConfidence,
+      collapseDuplicates,
+    });
 
-    return NextResponse.json({ logos });
+    return NextResponse.json({ logos: items, nextCursor });
   } catch (error) {
+    if (
+      error instanceof InvalidPageRequestError ||
+      error instanceof InvalidPhotoFilterError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Failed to load logos", error);
 
     return NextResponse.json(
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+
+import { fetchPhotoById } from "@/app/repositories/logo-index";
+import { requestReviewer } from "@/lib/admin-auth";
+import { UnknownPhotoError } from "@/lib/detection-review";
+import { getLogoIndexStore } from "@/lib/index-store";
+import {
+  addManualTag,
+  InvalidManualTagError,
+  ManualTagNotFoundError,
+  parseManualTag,
+  parseManualTagRemoval,
+  removeManualTag,
+} from "@/lib/manual-tags";
+
+type RouteContext = { params: Promise<{ photoId: string }> };
+
+function errorResponse(error: unknown, message: string) {
+  if (
+    error instanceof UnknownPhotoError ||
+    error instanceof ManualTagNotFoundError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  if (error instanceof InvalidManualTagError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  console.error(message, error);
+
+  return NextResponse.json(
+    {
+      error: "Unable to update the photo's logos",
+    },
+    { status: 500 },
+  );
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+// both methods need a reviewer token, like the review route
+// POST { "logo": "nike" }
+// POST { "logo": "nike", "boundingPoly": [{ "x": 10, "y": 20 },
+//        { "x": 90, "y": 60 }] }
+export async function POST(request: Request, context: RouteContext) {
+  if (!requestReviewer(request)) {
+    return unauthorized();
+  }
+
+  try {
+    const { photoId } = await context.params;
+    const tag = parseManualTag(await request.json().catch(() => ({})));
+
+    await addManualTag(getLogoIndexStore(), photoId, tag);
+
+    return NextResponse.json({ photo: await fetchPhotoById(photoId) });
+  } catch (error) {
+    return errorResponse(error, "Failed to tag photo");
+  }
+}
+
+// DELETE ?logo=nike removes every manual nike tag, and
+// DELETE ?logo=nike&detectionIndex=1001 just that one
+export async function DELETE(request: Request, context: RouteContext) {
+  if (!requestReviewer(request)) {
+    return unauthorized();
+  }
+
+  try {
+    const { photoId } = await context.params;
+    const removal = parseManualTagRemoval(new URL(request.url).searchParams);
+
+    await removeManualTag(getLogoIndexStore(), photoId, removal);
+
+    return NextResponse.json({ photo: await fetchPhotoById(photoId) });
+  } catch (error) {
+    return errorResponse(error, "Failed to remove photo tag");
+  }
+}
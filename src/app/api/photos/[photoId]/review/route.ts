@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { fetchPhotoById } from "@/app/repositories/logo-index";
+import { requestReviewer } from "@/lib/admin-auth";
+import {
+  InvalidReviewError,
+  parseReviewAction,
+  reviewDetection,
+  UnknownPhotoError,
+} from "@/lib/detection-review";
+import { getLogoIndexStore } from "@/lib/index-store";
+
+// needs "Authorization: Bearer <reviewer token>"; the decision is recorded
+// under the token's reviewer name
+// POST { "action": "confirm", "detectionIndex": 0 }
+// POST { "action": "relabel", "detectionIndex": 1, "logo": "coca-cola" }
+// POST { "action": "add", "logo": "nike",
+//        "boundingPoly": [{ "x": 10, "y": 20 }, { "x": 90, "y": 60 }] }
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ photoId: string }> },
+) {
+  const reviewer = requestReviewer(request);
+  if (!reviewer) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { photoId } = await context.params;
+    const action = parseReviewAction(await request.json().catch(() => ({})));
+
+    await reviewDetection(getLogoIndexStore(), photoId, action, reviewer);
+
+    return NextResponse.json({ photo: await fetchPhotoById(photoId) });
+  } catch (error) {
+    if (error instanceof UnknownPhotoError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof InvalidReviewError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Failed to review detection", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to review detection",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { fetchPhotoById } from "@/app/repositories/logo-index";
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ photoId: string }> },
+) {
+  try {
+    const { photoId } = await context.params;
+    const photo = await fetchPhotoById(photoId);
+
+    if (!photo) {
+      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ photo });
+  } catch (error) {
+    console.error("Failed to load photo", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to load photo",
+      },
+      { status: 500 },
+    );
+  }
+}
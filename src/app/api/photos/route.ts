@@ -1,13 +1,28 @@
 import { NextResponse } from "next/server";
 
-import { fetchAllPhotos } from "@/app/repositories/logo-index";
+import { fetchPhotosPage } from "@/app/repositories/logo-index";
+import { InvalidPageRequestError, parsePageParams } from "@/lib/pagination";
+import {
+  InvalidPhotoFilterError,
+  parsePhotoFilterParams,
+} from "@/lib/photo-filter";
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const photos = await fetchAllPhotos();
+    const { searchParams } = new URL(request.url);
+    const page = parsePageParams(searchParams);
+    const filter = parsePhotoFilterParams(searchParams);
+    const { items, nextCursor } = await fetchPhotosPage(page, filter);
 
-    return NextResponse.json({ photos });
+    return NextResponse.json({ photos: items, nextCursor });
   } catch (error) {
+    if (
+      error instanceof InvalidPageRequestError ||
+      error instanceof InvalidPhotoFilterError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Failed to load photos", error);
 
     return NextResponse.json(
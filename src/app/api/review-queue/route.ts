@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { fetchReviewQueue } from "@/app/repositories/logo-index";
+import { InvalidPageRequestError, parsePageParams } from "@/lib/pagination";
+
+// unreviewed detections, least confident first
+export async function GET(request: Request) {
+  try {
+    const page = parsePageParams(new URL(request.url).searchParams);
+    const { items, nextCursor } = await fetchReviewQueue(page);
+
+    return NextResponse.json({ detections: items, nextCursor });
+  } catch (error) {
+    if (error instanceof InvalidPageRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Failed to load the review queue", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to load the review queue",
+      },
+      { status: 500 },
+    );
+  }
+}
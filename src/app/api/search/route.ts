@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+
+import { searchPhotosByLogos } from "@/app/repositories/logo-index";
+import {
+  formatLogoQuery,
+  InvalidLogoQueryError,
+  parseLogoQuery,
+} from "@/lib/logo-query";
+import { InvalidPageRequestError, parsePageParams } from "@/lib/pagination";
+import {
+  InvalidPhotoFilterError,
+  parsePhotoFilterParams,
+} from "@/lib/photo-filter";
+
+// GET /api/search?q=nike AND adidas AND NOT puma&minConfidence=0.8&sort=confidence
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseLogoQuery(searchParams.get("q") ?? "");
+    const page = parsePageParams(searchParams);
+    const filter = parsePhotoFilterParams(searchParams);
+    const { items, nextCursor } = await searchPhotosByLogos(
+      query,
+      page,
+      filter,
+    );
+
+    return NextResponse.json({
+      query: formatLogoQuery(query),
+      photos: items,
+      nextCursor,
+    });
+  } catch (error) {
+    if (
+      error instanceof InvalidLogoQueryError ||
+      error instanceof InvalidPageRequestError ||
+      error instanceof InvalidPhotoFilterError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Failed to search photos", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to search photos",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+
+import { fetchPhotoById } from "@/app/repositories/logo-index";
+import { requestReviewer } from "@/lib/admin-auth";
+import { getPhotoIngester } from "@/lib/photo-ingest";
+import { PhotoNotFoundError } from "@/lib/photo-sources";
+import {
+  completeUpload,
+  InvalidUploadError,
+  UploadsUnsupportedError,
+} from "@/lib/photo-upload";
+
+function unauthorized() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+// POST { "key": "<key from /api/uploads/presign>" } once the PUT is done.
+// detects and indexes the photo, and returns it. needs a reviewer token
+export async function POST(request: Request) {
+  if (!requestReviewer(request)) {
+    return unauthorized();
+  }
+
+  try {
+    const { key } = (await request.json().catch(() => ({}))) as {
+      key?: unknown;
+    };
+    if (typeof key !== "string" || !key) {
+      return NextResponse.json({ error: "key is required." }, { status: 400 });
+    }
+
+    const { photo } = await completeUpload(getPhotoIngester(), key);
+
+    return NextResponse.json({ photo: await fetchPhotoById(photo.photoId) });
+  } catch (error) {
+    if (error instanceof InvalidUploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof PhotoNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof UploadsUnsupportedError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+
+    console.error("Failed to index uploaded photo", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to index uploaded photo",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { requestReviewer } from "@/lib/admin-auth";
+import { getPhotoIngester } from "@/lib/photo-ingest";
+import {
+  createUploadUrl,
+  InvalidUploadError,
+  UploadsUnsupportedError,
+} from "@/lib/photo-upload";
+
+function unauthorized() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+// POST { "filename": "team.jpg" } returns { key, url, contentType }. PUT the
+// image to url with that Content-Type, then POST the key to
+// /api/uploads/complete. both need a reviewer token
+export async function POST(request: Request) {
+  if (!requestReviewer(request)) {
+    return unauthorized();
+  }
+
+  try {
+    const { filename } = (await request.json().catch(() => ({}))) as {
+      filename?: unknown;
+    };
+    if (typeof filename !== "string" || !filename.trim()) {
+      return NextResponse.json(
+        { error: "filename is required." },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      await createUploadUrl(getPhotoIngester(), filename),
+    );
+  } catch (error) {
+    if (error instanceof InvalidUploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof UploadsUnsupportedError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+
+    console.error("Failed to create upload url", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to create upload url",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+
+import { fetchPhotoById } from "@/app/repositories/logo-index";
+import { requestReviewer } from "@/lib/admin-auth";
+import { getPhotoIngester } from "@/lib/photo-ingest";
+import {
+  InvalidUploadError,
+  UploadsUnsupportedError,
+  uploadPhoto,
+} from "@/lib/photo-upload";
+
+function unauthorized() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+// POST multipart/form-data with the image in a "file" field. needs a
+// reviewer token, like the review route. detection runs before the
+// response, which carries the indexed photo
+export async function POST(request: Request) {
+  if (!requestReviewer(request)) {
+    return unauthorized();
+  }
+
+  try {
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Send the image as multipart form data in a file field." },
+        { status: 400 },
+      );
+    }
+
+    const { photo } = await uploadPhoto(getPhotoIngester(), {
+      name: file.name,
+      bytes: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({ photo: await fetchPhotoById(photo.photoId) });
+  } catch (error) {
+    if (error instanceof InvalidUploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof UploadsUnsupportedError) {
+      return NextResponse.json({ error: error.message }, { status: 501 });
+    }
+
+    console.error("Failed to upload photo", error);
+
+    return NextResponse.json(
+      {
+        error: "Unable to upload photo",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,29 +1,91 @@
-import { fetchAllLogos, fetchAllPhotos } from "@/app/repositories/logo-index";
+import {
+  fetchAllLogos,
+  fetchPhotosPage,
+  searchPhotosByLogos,
+} from "@/app/repositories/logo-index";
 import { Gallery } from "@/components/gallery/gallery";
+import { resolveLogoIndexBackend } from "@/lib/index-store";
+import {
+  formatLogoQuery,
+  selectionFromParams,
+  selectionToQuery,
+} from "@/lib/logo-query";
+import { DEFAULT_PAGE_SIZE } from "@/lib/pagination";
+import { type PhotoFilter, parsePhotoFilterParams } from "@/lib/photo-filter";
 
-export default async function Home() {
+// what to point the reader at when the index can't be read
+function storeHint() {
   try {
-    const [photos, logos] = await Promise.all([
-      fetchAllPhotos(),
-      fetchAllLogos(),
+    return resolveLogoIndexBackend() === "file"
+      ? { store: "the index file", check: "the", variable: "LOGO_INDEX_FILE" }
+      : {
+          store: "DynamoDB",
+          check: "AWS credentials and the",
+          variable: "DYNAMO_TABLE",
+        };
+  } catch {
+    return {
+      store: "the logo index",
+      check: "the",
+      variable: "LOGO_INDEX_BACKEND",
+    };
+  }
+}
+
+type HomeProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function Home({ searchParams }: HomeProps) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    if (typeof value === "string") {
+      params.set(key, value);
+    }
+  }
+
+  const selection = selectionFromParams(params);
+  const query = selectionToQuery(selection);
+
+  let filter: PhotoFilter = {};
+  try {
+    filter = parsePhotoFilterParams(params);
+  } catch {
+    // a hand-edited url falls back to the unfiltered gallery
+  }
+
+  try {
+    const [firstPage, logos] = await Promise.all([
+      query
+        ? searchPhotosByLogos(query, { limit: DEFAULT_PAGE_SIZE }, filter)
+        : fetchPhotosPage({ limit: DEFAULT_PAGE_SIZE }, filter),
+      fetchAllLogos(filter),
     ]);
 
     return (
       <main className="mx-auto flex min-h-screen w-full max-w-7xl flex-col gap-8 px-6 py-12">
-        <Gallery initialPhotos={photos} logos={logos} />
+        <Gallery
+          initial={{
+            query: query ? formatLogoQuery(query) : null,
+            filter,
+            page: firstPage,
+          }}
+          initialSelection={selection}
+          logos={logos}
+        />
       </main>
     );
   } catch (error) {
     console.error("Failed to load gallery", error);
+    const hint = storeHint();
 
     return (
       <main className="mx-auto flex min-h-screen w-full max-w-2xl flex-col items-center justify-center gap-4 px-6 text-center">
         <h1 className="text-2xl font-semibold">Configuration required</h1>
         <p className="text-muted-foreground">
-          The app couldn&apos;t reach DynamoDB. Double-check AWS credentials and
-          the
+          The app couldn&apos;t read {hint.store}. Double-check {hint.check}
           <code className="mx-1 rounded bg-muted px-1 py-0.5 text-xs">
-            DYNAMO_TABLE
+            {hint.variable}
           </code>
           environment variable in your
           <code className="mx-1 rounded bg-muted px-1 py-0.5 text-xs">
@@ -0,0 +1,73 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { fetchPhotoById } from "@/app/repositories/logo-index";
+import { PhotoDetections } from "@/components/photo/photo-detections";
+
+type PhotoPageProps = {
+  params: Promise<{ photoId: string }>;
+};
+
+export default async function PhotoPage({ params }: PhotoPageProps) {
+  const { photoId } = await params;
+  const photo = await fetchPhotoById(decodeURIComponent(photoId));
+
+  if (!photo) {
+    notFound();
+  }
+
+  // makers often repeat their name in the model, e.g. "Canon" "Canon EOS R5"
+  const { make, model } = photo.camera ?? {};
+  const camera =
+    make && model && !model.startsWith(make)
+      ? `${make} ${model}`
+      : (model ?? make);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-5xl flex-col gap-6 px-6 py-12">
+      <Link
+        href="/"
+        className="text-sm text-muted-foreground hover:text-foreground"
+      >
+        ← Back to gallery
+      </Link>
+      <header className="flex flex-wrap items-baseline justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-semibold">{photo.id}</h1>
+          <p className="text-sm text-muted-foreground">
+            {photo.s3Key ?? "unnamed"}
+            {photo.takenAt
+              ? ` · taken ${new Date(photo.takenAt).toLocaleString()}`
+              : null}
+            {photo.createdAt
+              ? ` · indexed ${new Date(photo.createdAt).toLocaleString()}`
+              : null}
+          </p>
+          {camera || photo.gps ? (
+            <p className="text-sm text-muted-foreground">
+              {[
+                camera,
+                photo.gps
+                  ? `${photo.gps.latitude.toFixed(5)}, ${photo.gps.longitude.toFixed(5)}`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          ) : null}
+        </div>
+        {photo.imageUrl ? (
+          <Link
+            href={photo.imageUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm underline underline-offset-4"
+          >
+            Open original
+          </Link>
+        ) : null}
+      </header>
+      <PhotoDetections photo={photo} />
+    </main>
+  );
+}
@@ -0,0 +1,39 @@
+import { getLogoIndexStore } from "@/lib/index-store";
+
+export type IngestFailure = {
+  key: string;
+  errorName: string;
+  message: string;
+  attempts: number;
+  firstFailedAt?: string;
+  lastFailedAt?: string;
+};
+
+type RawItem = Record<string, unknown>;
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function mapFailureItem(item: RawItem): IngestFailure {
+  return {
+    key: String(item.SK ?? ""),
+    errorName: optionalString(item.errorName) ?? "Error",
+    message: optionalString(item.message) ?? "",
+    attempts: Number(item.attempts ?? 0),
+    firstFailedAt: optionalString(item.firstFailedAt),
+    lastFailedAt: optionalString(item.lastFailedAt),
+  };
+}
+
+export async function fetchIngestFailures(): Promise<IngestFailure[]> {
+  const items = await getLogoIndexStore().listIngestFailures();
+
+  return items
+    .map(mapFailureItem)
+    .sort(
+      (a, b) =>
+        (b.lastFailedAt ?? "").localeCompare(a.lastFailedAt ?? "") ||
+        a.key.localeCompare(b.key),
+    );
+}
@@ -1,31 +1,74 @@
+import { normalizeLogoName, resolvePublicUrl } from "@/lib/dynamo";
+import { presignedImageUrl } from "@/lib/image-urls";
+import { getLogoIndexStore, type PartitionPage } from "@/lib/index-store";
 import {
-  BatchGetCommand,
-  QueryCommand,
-  ScanCommand,
-} from "@aws-sdk/lib-dynamodb";
-
+  evaluateLogoQuery,
+  type LogoQuery,
+  logoQuerySlugs,
+  positiveLogoQuerySlugs,
+  resolveLogoQueryAliases,
+} from "@/lib/logo-query";
 import {
-  dynamoDocClient,
-  getTableName,
-  normalizeLogoName,
-  resolvePublicUrl,
-} from "@/lib/dynamo";
-
-export type LogoDetection = {
-  name: string;
-  slug: string;
-  confidence: number;
-  boundingPoly?: Array<{ x: number; y: number }>;
-  detectionIndex?: number;
+  type LogoAlias,
+  type LogoSuggestion,
+  suggestLogos,
+} from "@/lib/logo-search";
+import {
+  decodeCursor,
+  encodeCursor,
+  type Page,
+  type PageRequest,
+} from "@/lib/pagination";
+import {
+  DEFAULT_PHOTO_SORT,
+  hasDateRange,
+  isTakenInRange,
+  meetsMinConfidence,
+  type PhotoFilter,
+  type PhotoSort,
+  photoSortKey,
+  photoTime,
+} from "@/lib/photo-filter";
+import {
+  type DetectionReview,
+  type LogoDetection,
+  type PhotoMetadata,
+  readPhotoDetections,
+  type SuppressedDetection,
+  type SuppressionReason,
+} from "@/lib/schema";
+
+export type {
+  DetectionReview,
+  LogoAlias,
+  LogoDetection,
+  LogoSuggestion,
+  SuppressedDetection,
 };
 
 export type PhotoRecord = {
   id: string;
   imageUrl: string | null;
   s3Key?: string;
+  // a small copy for listings; photos indexed before thumbnails don't have it
+  thumbnailUrl?: string | null;
+  thumbnailKey?: string;
   logos: LogoDetection[];
+  // when the photo was indexed
   createdAt?: string;
   matchConfidence?: number;
+  // pixel size recorded at ingest, before orientation is applied; older
+  // photos don't have it
+  imageSize?: { width: number; height: number };
+  // from the photo's EXIF; see PhotoMetadata
+  takenAt?: string;
+  camera?: PhotoMetadata["camera"];
+  orientation?: number;
+  gps?: PhotoMetadata["gps"];
+  // detections the rules or a reviewer kept out of the index
+  suppressedLogos?: SuppressedDetection[];
+  // the canonical photo of the duplicate group this one is in
+  duplicateOf?: string;
 };
 
 export type LogoSummary = {
@@ -35,19 +78,14 @@ export type LogoSummary = {
   topConfidence?: number;
   firstPhotoId?: string;
   firstPhotoUrl?: string | null;
+  firstPhotoS3Key?: string;
   firstDetectionBounds?: Array<{ x: number; y: number }>;
+  firstCropUrl?: string | null;
+  firstCropKey?: string;
 };
 
 type RawItem = Record<string, unknown>;
 
-type DynamoKey = {
-  PK: string;
-  SK: string;
-};
-
-const PHOTO_PARTITION_KEY = "PHOTO";
-const LOGO_PARTITION_KEY = "LOGO";
-
 function asString(value: unknown): string | undefined {
   if (typeof value === "string") {
     return value;
@@ -70,50 +108,126 @@ function asNumber(value: unknown): number | undefined {
   return undefined;
 }
 
-function mapPhotoItem(item: RawItem): PhotoRecord {
-  const detectedLogos: LogoDetection[] = Array.isArray(item.detections)
-    ? (item.detections as RawItem[])
-        .map((logo) => {
-          const name = asString(logo.name) ?? asString(logo.displayName) ?? "";
-          if (!name) {
-            return null;
-          }
+function mapDetection(logo: RawItem, index: number): LogoDetection | null {
+  const name = asString(logo.name) ?? asString(logo.displayName) ?? "";
+  if (!name) {
+    return null;
+  }
 
-          const detection: LogoDetection = {
-            name,
-            slug: normalizeLogoName(name),
-            confidence: asNumber(logo.confidence ?? logo.score) ?? 0,
-          };
+  const detection: LogoDetection = {
+    name,
+    slug: asString(logo.slug) ?? normalizeLogoName(name),
+    confidence: asNumber(logo.confidence ?? logo.score) ?? 0,
+    detectionIndex: asNumber(logo.detectionIndex) ?? index,
+  };
 
-          const detectionIndex = asNumber(logo.detectionIndex);
-          if (detectionIndex !== undefined) {
-            detection.detectionIndex = detectionIndex;
-          }
+  if (Array.isArray(logo.boundingPoly)) {
+    detection.boundingPoly = logo.boundingPoly.map((point: RawItem) => ({
+      x: asNumber(point.x ?? point[0]) ?? 0,
+      y: asNumber(point.y ?? point[1]) ?? 0,
+    }));
+  }
 
-          if (Array.isArray(logo.boundingPoly)) {
-            detection.boundingPoly = logo.boundingPoly.map(
-              (point: RawItem) => ({
-                x: asNumber(point.x ?? point[0]) ?? 0,
-                y: asNumber(point.y ?? point[1]) ?? 0,
-              })
-            );
-          }
+  if (logo.source === "review" || logo.source === "manual") {
+    detection.source = logo.source;
+  }
+
+  if (logo.review && typeof logo.review === "object") {
+    detection.review = logo.review as DetectionReview;
+  }
 
-          return detection;
-        })
-        .filter((logo): logo is LogoDetection => Boolean(logo))
-    : [];
+  const cropKey = asString(logo.cropKey);
+  if (cropKey) {
+    detection.cropKey = cropKey;
+    detection.cropUrl =
+      resolvePublicUrl(asString(logo.cropUrl), cropKey) ?? undefined;
+  }
+
+  return detection;
+}
+
+function mapPhotoItem(item: RawItem): PhotoRecord {
+  const detectedLogos: LogoDetection[] = readPhotoDetections(item)
+    .map(mapDetection)
+    .filter((logo): logo is LogoDetection => Boolean(logo));
+  const suppressedLogos = (
+    Array.isArray(item.suppressedDetections)
+      ? (item.suppressedDetections as RawItem[])
+      : []
+  ).flatMap((logo, index): SuppressedDetection[] => {
+    const detection = mapDetection(logo, index);
+    return detection
+      ? [{ ...detection, reason: logo.reason as SuppressionReason }]
+      : [];
+  });
 
   const s3Key = asString(item.s3Key);
   const publicUrl = asString(item.publicUrl);
-
-  return {
+  const photo: PhotoRecord = {
     id: asString(item.SK) ?? asString(item.photoId) ?? "",
     imageUrl: resolvePublicUrl(publicUrl, s3Key),
     s3Key,
     logos: detectedLogos,
     createdAt: asString(item.createdAt),
   };
+
+  if (suppressedLogos.length > 0) {
+    photo.suppressedLogos = suppressedLogos;
+  }
+
+  const metadata = item.metadata as RawItem | undefined;
+  if (metadata && typeof metadata === "object") {
+    photo.takenAt = asString(metadata.takenAt);
+    photo.camera = metadata.camera as PhotoMetadata["camera"];
+    photo.orientation = asNumber(metadata.orientation);
+    photo.gps = metadata.gps as PhotoMetadata["gps"];
+  }
+
+  const duplicateOf = asString(item.duplicateOf);
+  if (duplicateOf) {
+    photo.duplicateOf = duplicateOf;
+  }
+
+  const thumbnailKey = asString(item.thumbnailKey);
+  if (thumbnailKey) {
+    photo.thumbnailKey = thumbnailKey;
+    photo.thumbnailUrl = resolvePublicUrl(
+      asString(item.thumbnailUrl),
+      thumbnailKey,
+    );
+  }
+
+  const size = item.imageSize as RawItem | undefined;
+  const width = asNumber(size?.width);
+  const height = asNumber(size?.height);
+  if (width && height) {
+    photo.imageSize = { width, height };
+  }
+
+  return photo;
+}
+
+// drops the detections a confidence threshold rules out
+function applyMinConfidence(
+  photo: PhotoRecord,
+  filter: PhotoFilter,
+): PhotoRecord {
+  if (!filter.minConfidence) {
+    return photo;
+  }
+
+  return {
+    ...photo,
+    logos: photo.logos.filter((logo) =>
+      meetsMinConfidence(logo.confidence, filter),
+    ),
+  };
+}
+
+function bestDetectionConfidence(photo: PhotoRecord): number | undefined {
+  return photo.logos.length > 0
+    ? Math.max(...photo.logos.map((logo) => logo.confidence))
+    : undefined;
 }
 
 function mapLogoSummary(item: RawItem): LogoSummary {
@@ -121,7 +235,12 @@ function mapLogoSummary(item: RawItem): LogoSummary {
   const name = asString(item.displayName) ?? fallbackName;
   const slug = normalizeLogoName(asString(item.SK) ?? name);
   const firstPhotoId = asString(item.firstPhotoId);
-  const firstPhotoUrl = asString(item.firstPhotoUrl) ?? null;
+  const firstCropKey = asString(item.firstCropKey);
+  const firstPhotoS3Key = asString(item.firstPhotoS3Key);
+  const firstPhotoUrl = resolvePublicUrl(
+    asString(item.firstPhotoUrl),
+    firstPhotoS3Key,
+  );
 
   const firstDetectionBounds = Array.isArray(item.firstDetectionBounds)
     ? (item.firstDetectionBounds as RawItem[]).map((point: RawItem) => ({
@@ -137,117 +256,647 @@ function mapLogoSummary(item: RawItem): LogoSummary {
     topConfidence: asNumber(item.topConfidence),
     firstPhotoId,
     firstPhotoUrl,
+    firstPhotoS3Key,
     firstDetectionBounds,
+    firstCropUrl: resolvePublicUrl(asString(item.firstCropUrl), firstCropKey),
+    firstCropKey,
   };
 }
 
-export async function fetchAllPhotos(): Promise<PhotoRecord[]> {
-  const tableName = getTableName("photos");
+type SignableImages = {
+  imageUrl: string | null;
+  s3Key?: string;
+  thumbnailUrl?: string | null;
+  thumbnailKey?: string;
+  logos?: LogoDetection[];
+};
 
-  const { Items } = await dynamoDocClient.send(
-    new ScanCommand({
-      TableName: tableName,
-    })
+// the url as stored when there is one, otherwise a presigned one
+async function signedUrl(
+  url: string | null | undefined,
+  key: string | undefined,
+): Promise<string | null> {
+  if (url || !key) {
+    return url ?? null;
+  }
+
+  return presignedImageUrl(key);
+}
+
+// photos in a private bucket get a presigned url, as do their thumbnails
+// and logo crops. it's done once the page is known, so only the photos
+// returned are signed
+async function withImageUrls<T extends SignableImages>(
+  photos: T[],
+): Promise<T[]> {
+  return Promise.all(
+    photos.map(async (photo) => {
+      const signed = { ...photo };
+      signed.imageUrl = await signedUrl(photo.imageUrl, photo.s3Key);
+      if (photo.thumbnailKey) {
+        signed.thumbnailUrl = await signedUrl(
+          photo.thumbnailUrl,
+          photo.thumbnailKey,
+        );
+      }
+
+      if (photo.logos) {
+        signed.logos = await Promise.all(
+          photo.logos.map(async (logo) =>
+            logo.cropKey
+              ? {
+                  ...logo,
+                  cropUrl:
+                    (await signedUrl(logo.cropUrl, logo.cropKey)) ?? undefined,
+                }
+              : logo,
+          ),
+        );
+      }
+
+      return signed;
+    }),
   );
+}
 
-  const photos = (Items ?? []).map(mapPhotoItem);
+async function withPageImageUrls<T extends SignableImages>(
+  page: Page<T>,
+): Promise<Page<T>> {
+  return { ...page, items: await withImageUrls(page.items) };
+}
 
-  return photos.sort((a, b) => {
-    if (a.createdAt && b.createdAt) {
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    }
+async function withFirstPhotoUrls(
+  logos: LogoSummary[],
+): Promise<LogoSummary[]> {
+  return Promise.all(
+    logos.map(async (logo) => ({
+      ...logo,
+      firstPhotoUrl: await signedUrl(logo.firstPhotoUrl, logo.firstPhotoS3Key),
+      firstCropUrl: await signedUrl(logo.firstCropUrl, logo.firstCropKey),
+    })),
+  );
+}
 
-    return a.id.localeCompare(b.id);
+// with collapseDuplicates, a photo grouped under a canonical photo is left
+// out when the canonical photo belongs in the same results, which `listed`
+// decides, whether or not it is on this page. otherwise the duplicate
+// stays, so a logo only a duplicate was detected with still finds the
+// group. pages can come back short because of it
+async function withoutDuplicates(
+  photos: PhotoRecord[],
+  filter: PhotoFilter,
+  listed: (canonical: PhotoRecord) => boolean,
+): Promise<PhotoRecord[]> {
+  const canonicalIds = [
+    ...new Set(photos.flatMap((photo) => photo.duplicateOf ?? [])),
+  ];
+  if (!filter.collapseDuplicates || canonicalIds.length === 0) {
+    return photos;
+  }
+
+  const canonicals = await loadPhotos(canonicalIds);
+  return photos.filter((photo) => {
+    const canonical = photo.duplicateOf
+      ? canonicals.get(photo.duplicateOf)
+      : undefined;
+    return !canonical || !listed(canonical);
   });
 }
 
-export async function fetchAllLogos(): Promise<LogoSummary[]> {
-  const tableName = getTableName("logos");
+// how many photos with each logo collapseDuplicates leaves out: duplicates
+// whose canonical photo has the logo too. it reads every photo
+async function hiddenDuplicateCounts(): Promise<Map<string, number>> {
+  const photos = (await getLogoIndexStore().listPhotos()).map(mapPhotoItem);
+  const slugsById = new Map(
+    photos.map(
+      (photo) =>
+        [photo.id, new Set(photo.logos.map((logo) => logo.slug))] as const,
+    ),
+  );
+  const counts = new Map<string, number>();
 
-  const { Items } = await dynamoDocClient.send(
-    new ScanCommand({
-      TableName: tableName,
-    })
+  for (const photo of photos) {
+    const canonicalSlugs = photo.duplicateOf
+      ? slugsById.get(photo.duplicateOf)
+      : undefined;
+    if (!canonicalSlugs) {
+      continue;
+    }
+
+    for (const slug of slugsById.get(photo.id) ?? []) {
+      if (canonicalSlugs.has(slug)) {
+        counts.set(slug, (counts.get(slug) ?? 0) + 1);
+      }
+    }
+  }
+
+  return counts;
+}
+
+async function withCollapsedCounts(
+  logos: LogoSummary[],
+  filter: PhotoFilter,
+): Promise<LogoSummary[]> {
+  if (!filter.collapseDuplicates) {
+    return logos;
+  }
+
+  const hidden = await hiddenDuplicateCounts();
+  return logos.map((logo) => ({
+    ...logo,
+    totalPhotos: Math.max(0, logo.totalPhotos - (hidden.get(logo.slug) ?? 0)),
+  }));
+}
+
+export async function fetchAllPhotos(
+  filter: PhotoFilter = {},
+): Promise<PhotoRecord[]> {
+  const items = await getLogoIndexStore().listPhotos();
+
+  const photos = await withoutDuplicates(
+    items.map(mapPhotoItem).filter((photo) => isTakenInRange(photo, filter)),
+    filter,
+    (canonical) => isTakenInRange(canonical, filter),
   );
 
-  const logos = (Items ?? []).map(mapLogoSummary);
+  // newest first by when they were taken
+  return withImageUrls(
+    photos.sort((a, b) => {
+      const [timeA, timeB] = [photoTime(a), photoTime(b)];
+      if (!Number.isNaN(timeA) && !Number.isNaN(timeB)) {
+        return timeB - timeA;
+      }
 
-  return logos.sort(
-    (a, b) => b.totalPhotos - a.totalPhotos || a.name.localeCompare(b.name)
+      return a.id.localeCompare(b.id);
+    }),
   );
 }
 
-export async function fetchPhotosByLogo(
-  logoNameOrSlug: string
-): Promise<PhotoRecord[]> {
-  const mappingTableName = getTableName("photo-logos");
-  const slug = normalizeLogoName(logoNameOrSlug);
-  const partitionKey = `LOGO#${slug}`;
-
-  const { Items } = await dynamoDocClient.send(
-    new QueryCommand({
-      TableName: mappingTableName,
-      KeyConditionExpression: "PK = :pk",
-      ExpressionAttributeValues: {
-        ":pk": partitionKey,
-      },
-    })
+export async function fetchAllLogos(
+  filter: PhotoFilter = {},
+): Promise<LogoSummary[]> {
+  const items = await getLogoIndexStore().listLogos();
+
+  // summaries stay behind at zero once re-ingestion removes a logo's last photo
+  const logos = (
+    await withCollapsedCounts(items.map(mapLogoSummary), filter)
+  ).filter((logo) => logo.totalPhotos > 0);
+
+  return withFirstPhotoUrls(
+    logos.sort(
+      (a, b) => b.totalPhotos - a.totalPhotos || a.name.localeCompare(b.name),
+    ),
   );
+}
 
-  const mappings = Items ?? [];
+function toPage<T>(page: PartitionPage, map: (item: RawItem) => T): Page<T> {
+  return {
+    items: page.items.map(map),
+    nextCursor: page.lastKey === null ? null : encodeCursor(page.lastKey),
+  };
+}
 
-  if (mappings.length === 0) {
-    return [];
+function cursorKey(request: PageRequest): string | undefined {
+  return request.cursor ? decodeCursor(request.cursor) : undefined;
+}
+
+function mapLogoAlias(item: RawItem): LogoAlias | null {
+  const alias = asString(item.SK);
+  const slug = asString(item.slug);
+  if (!alias || !slug) {
+    return null;
   }
 
-  const photoIdConfidences = new Map<string, number>();
+  return { alias, name: asString(item.displayName) ?? alias, slug };
+}
 
-  const uniquePhotoIds: string[] = [];
-  for (const item of mappings) {
-    const sortKey = asString(item.SK);
-    const photoId =
-      asString(item.photoId) ?? (sortKey ? sortKey.split("#")[0] : undefined);
-    if (!photoId) {
-      continue;
+export async function fetchLogoAliases(): Promise<LogoAlias[]> {
+  const items = await getLogoIndexStore().listLogoAliases();
+
+  return items
+    .map(mapLogoAlias)
+    .filter((alias): alias is LogoAlias => Boolean(alias));
+}
+
+async function fetchAliasTargets(): Promise<Map<string, string>> {
+  const aliases = await fetchLogoAliases();
+  return new Map(aliases.map((alias) => [alias.alias, alias.slug]));
+}
+
+// prefix and typo-tolerant matching over every logo name and alias; see
+// suggestLogos for the ranking. suggestions only need names and counts, so
+// no image urls are signed
+export async function fetchLogoSuggestions(
+  input: string,
+  limit: number,
+): Promise<LogoSuggestion[]> {
+  const [items, aliases] = await Promise.all([
+    getLogoIndexStore().listLogos(),
+    fetchLogoAliases(),
+  ]);
+  const logos = items
+    .map(mapLogoSummary)
+    .filter((logo) => logo.totalPhotos > 0)
+    .map(({ slug, name, totalPhotos }) => ({ slug, name, totalPhotos }));
+
+  return suggestLogos(input, logos, aliases, limit);
+}
+
+type SortCandidate = {
+  id: string;
+  confidence?: number;
+  takenAt?: string;
+  createdAt?: string;
+};
+
+// orders a whole result set in memory, for listings the store can't page
+// in the order asked for. the cursor is the sort key of the last photo
+function pageCandidates(
+  candidates: SortCandidate[],
+  request: PageRequest,
+  sort: PhotoSort,
+): { ids: string[]; nextCursor: string | null } {
+  const after = cursorKey(request);
+  const remaining = candidates
+    .map((candidate) => ({
+      id: candidate.id,
+      key: photoSortKey(sort, candidate),
+    }))
+    .filter(({ key }) => after === undefined || key > after)
+    .sort((a, b) => (a.key < b.key ? -1 : 1));
+  const page = remaining.slice(0, request.limit);
+
+  return {
+    ids: page.map(({ id }) => id),
+    nextCursor:
+      remaining.length > page.length
+        ? encodeCursor(page.at(-1)?.key ?? "")
+        : null,
+  };
+}
+
+async function loadPhotos(
+  photoIds: string[],
+): Promise<Map<string, PhotoRecord>> {
+  if (photoIds.length === 0) {
+    return new Map();
+  }
+
+  const items = await getLogoIndexStore().getPhotos(photoIds);
+
+  return new Map(
+    items.map((item) => {
+      const photo = mapPhotoItem(item);
+      return [photo.id, photo] as const;
+    }),
+  );
+}
+
+export async function fetchPhotoById(
+  photoId: string,
+): Promise<PhotoRecord | null> {
+  const item = await getLogoIndexStore().getPhoto(photoId);
+
+  if (!item) {
+    return null;
+  }
+
+  const [photo] = await withImageUrls([mapPhotoItem(item)]);
+  return photo;
+}
+
+export type ReviewQueueItem = {
+  photoId: string;
+  imageUrl: string | null;
+  s3Key?: string;
+  detection: LogoDetection;
+};
+
+// indexed detections nobody has reviewed yet, least confident first. the
+// whole photo partition is read for every page
+export async function fetchReviewQueue(
+  request: PageRequest,
+): Promise<Page<ReviewQueueItem>> {
+  const after = cursorKey(request);
+  const queue = (await getLogoIndexStore().listPhotos())
+    .map(mapPhotoItem)
+    .flatMap((photo) =>
+      photo.logos
+        .filter((detection) => !detection.review && !detection.source)
+        .map((detection) => ({
+          item: {
+            photoId: photo.id,
+            imageUrl: photo.imageUrl,
+            s3Key: photo.s3Key,
+            detection,
+          },
+          key: [
+            detection.confidence.toFixed(6),
+            photo.id,
+            String(detection.detectionIndex).padStart(4, "0"),
+          ].join("#"),
+        })),
+    )
+    .filter(({ key }) => after === undefined || key > after)
+    .sort((a, b) => (a.key < b.key ? -1 : 1));
+  const page = queue.slice(0, request.limit);
+
+  return {
+    items: await withImageUrls(page.map(({ item }) => item)),
+    nextCursor:
+      queue.length > page.length ? encodeCursor(page.at(-1)?.key ?? "") : null,
+  };
+}
+
+export type DuplicatePhotoGroup = {
+  canonical: PhotoRecord;
+  duplicates: PhotoRecord[];
+};
+
+// the groups `npm run duplicates` recorded, biggest first. duplicates of a
+// photo that has since been removed aren't in any group
+export async function fetchDuplicateGroups(): Promise<DuplicatePhotoGroup[]> {
+  const photos = new Map(
+    (await getLogoIndexStore().listPhotos()).map((item) => {
+      const photo = mapPhotoItem(item);
+      return [photo.id, photo] as const;
+    }),
+  );
+  const duplicatesOf = new Map<string, PhotoRecord[]>();
+  for (const photo of photos.values()) {
+    if (photo.duplicateOf && photos.has(photo.duplicateOf)) {
+      const duplicates = duplicatesOf.get(photo.duplicateOf) ?? [];
+      duplicates.push(photo);
+      duplicatesOf.set(photo.duplicateOf, duplicates);
     }
+  }
+
+  const groups = await Promise.all(
+    [...duplicatesOf].map(async ([canonicalId, duplicates]) => {
+      const [canonical, ...signed] = await withImageUrls([
+        photos.get(canonicalId) as PhotoRecord,
+        ...duplicates.sort((a, b) => a.id.localeCompare(b.id)),
+      ]);
+      return { canonical, duplicates: signed };
+    }),
+  );
+
+  return groups.sort(
+    (a, b) =>
+      b.duplicates.length - a.duplicates.length ||
+      a.canonical.id.localeCompare(b.canonical.id),
+  );
+}
+
+// the store's own order for a sort, when it has one. newest and oldest
+// page through the time index; a date range still reads everything
+function storeOrder(
+  filter: PhotoFilter,
+): { byTime?: "newest" | "oldest" } | null {
+  const sort = filter.sort ?? DEFAULT_PHOTO_SORT;
+  if (sort === "confidence" || hasDateRange(filter)) {
+    return null;
+  }
 
-    if (!uniquePhotoIds.includes(photoId)) {
-      uniquePhotoIds.push(photoId);
+  return sort === "id" ? {} : { byTime: sort };
+}
+
+// newest first unless another sort is asked for. sorting by confidence, or
+// a date range, reads every photo first; anything else pages straight from
+// the store
+export async function fetchPhotosPage(
+  request: PageRequest,
+  filter: PhotoFilter = {},
+): Promise<Page<PhotoRecord>> {
+  const store = getLogoIndexStore();
+  const sort = filter.sort ?? DEFAULT_PHOTO_SORT;
+  const order = storeOrder(filter);
+
+  if (order) {
+    const page = await store.listPhotosPage({
+      limit: request.limit,
+      after: cursorKey(request),
+      ...order,
+    });
+
+    const { items, nextCursor } = toPage(page, (item) =>
+      applyMinConfidence(mapPhotoItem(item), filter),
+    );
+
+    return withPageImageUrls({
+      items: await withoutDuplicates(items, filter, () => true),
+      nextCursor,
+    });
+  }
+
+  const listed = (await store.listPhotos())
+    .map((item) => applyMinConfidence(mapPhotoItem(item), filter))
+    .filter((photo) => isTakenInRange(photo, filter));
+  const photos = new Map(
+    (
+      await withoutDuplicates(listed, filter, (canonical) =>
+        isTakenInRange(canonical, filter),
+      )
+    ).map((photo) => [photo.id, photo] as const),
+  );
+  const { ids, nextCursor } = pageCandidates(
+    [...photos.values()].map((photo) => ({
+      id: photo.id,
+      takenAt: photo.takenAt,
+      createdAt: photo.createdAt,
+      confidence: bestDetectionConfidence(photo),
+    })),
+    request,
+    sort,
+  );
+
+  return withPageImageUrls({
+    items: ids
+      .map((photoId) => photos.get(photoId))
+      .filter((photo): photo is PhotoRecord => Boolean(photo)),
+    nextCursor,
+  });
+}
+
+// pages come back in slug order. zero-count summaries, and with
+// minConfidence logos never detected that confidently, are dropped after
+// paging, so a page can be short without being the last
+export async function fetchLogosPage(
+  request: PageRequest,
+  filter: PhotoFilter = {},
+): Promise<Page<LogoSummary>> {
+  const page = await getLogoIndexStore().listLogosPage({
+    limit: request.limit,
+    after: cursorKey(request),
+  });
+  const { items, nextCursor } = toPage(page, mapLogoSummary);
+
+  return {
+    items: await withFirstPhotoUrls(
+      (await withCollapsedCounts(items, filter)).filter(
+        (logo) =>
+          logo.totalPhotos > 0 &&
+          meetsMinConfidence(logo.topConfidence, filter),
+      ),
+    ),
+    nextCursor,
+  };
+}
+
+function mappingPhotoId(item: RawItem): string | undefined {
+  const sortKey = asString(item.SK);
+  return (
+    asString(item.photoId) ?? (sortKey ? sortKey.split("#")[0] : undefined)
+  );
+}
+
+// a logo can be detected more than once in a photo; the photo matches with
+// its best detection
+function keepBestConfidence(
+  confidences: Map<string, number | undefined>,
+  photoId: string,
+  mapping: RawItem,
+) {
+  const confidence = asNumber(mapping.confidence);
+  const existing = confidences.get(photoId);
+  if (
+    existing === undefined ||
+    (confidence !== undefined && confidence > existing)
+  ) {
+    confidences.set(photoId, confidence);
+  }
+}
+
+// pages photos matched by logo, newest first unless another sort is asked
+// for; matches maps each one to its matchConfidence. dates are only known
+// once the photos are read, so sorting by them or a date range reads every
+// match
+async function pageMatchedPhotos(
+  matches: Map<string, number | undefined>,
+  request: PageRequest,
+  filter: PhotoFilter,
+): Promise<Page<PhotoRecord>> {
+  const sort = filter.sort ?? DEFAULT_PHOTO_SORT;
+  const dated =
+    sort === "newest" || sort === "oldest" || hasDateRange(filter)
+      ? await loadPhotos([...matches.keys()])
+      : null;
+  const { ids, nextCursor } = pageCandidates(
+    [...matches]
+      .filter(([id]) => !dated || isTakenInRange(dated.get(id) ?? {}, filter))
+      .map(([id, confidence]) => ({
+        id,
+        confidence,
+        takenAt: dated?.get(id)?.takenAt,
+        createdAt: dated?.get(id)?.createdAt,
+      })),
+    request,
+    sort,
+  );
+  const photos = dated ?? (await loadPhotos(ids));
+
+  const items = ids
+    .map((photoId) => {
+      const photo = photos.get(photoId);
+      if (!photo) {
+        return null;
+      }
+
+      const filtered = applyMinConfidence(photo, filter);
+      const confidence = matches.get(photoId);
+
+      return confidence === undefined
+        ? filtered
+        : { ...filtered, matchConfidence: confidence };
+    })
+    .filter((photo): photo is PhotoRecord => Boolean(photo));
+
+  return withPageImageUrls({
+    items: await withoutDuplicates(
+      items,
+      filter,
+      (canonical) =>
+        matches.has(canonical.id) && isTakenInRange(canonical, filter),
+    ),
+    nextCursor,
+  });
+}
+
+// newest first unless another sort is asked for. mappings sort by photo
+// id, and by time through the time index, so either way each photo's
+// detections of the logo sit together and are paged straight from the
+// store: reading stops at the first mapping of a photo that doesn't fit on
+// the page, and the cursor is left on the last mapping that was read.
+// sorting by confidence, or a date range, reads every mapping of the logo
+// first
+export async function fetchPhotosByLogo(
+  logoNameOrSlug: string,
+  request: PageRequest,
+  filter: PhotoFilter = {},
+): Promise<Page<PhotoRecord>> {
+  const store = getLogoIndexStore();
+  const requested = normalizeLogoName(logoNameOrSlug);
+  const slug = (await fetchAliasTargets()).get(requested) ?? requested;
+  const order = storeOrder(filter);
+
+  if (!order) {
+    const matches = new Map<string, number | undefined>();
+    for (const item of await store.listLogoMappings(slug)) {
+      const photoId = mappingPhotoId(item);
+      if (photoId && meetsMinConfidence(asNumber(item.confidence), filter)) {
+        keepBestConfidence(matches, photoId, item);
+      }
     }
 
-    const confidence = asNumber(item.confidence);
-    if (confidence === undefined) {
-      continue;
+    return pageMatchedPhotos(matches, request, filter);
+  }
+
+  const photoIdConfidences = new Map<string, number | undefined>();
+  let after = cursorKey(request);
+  let lastRead = after;
+  let exhausted = false;
+
+  collect: for (;;) {
+    const page = await store.listLogoMappingsPage(slug, {
+      limit: request.limit + 1,
+      after,
+      ...order,
+    });
+
+    for (const item of page.items) {
+      const photoId = mappingPhotoId(item);
+      if (
+        photoId &&
+        !photoIdConfidences.has(photoId) &&
+        photoIdConfidences.size >= request.limit
+      ) {
+        break collect;
+      }
+
+      lastRead = asString(order.byTime ? item.timeKey : item.SK);
+      if (!photoId || !meetsMinConfidence(asNumber(item.confidence), filter)) {
+        continue;
+      }
+
+      keepBestConfidence(photoIdConfidences, photoId, item);
     }
 
-    const existing = photoIdConfidences.get(photoId);
-    if (existing === undefined || confidence > existing) {
-      photoIdConfidences.set(photoId, confidence);
+    if (page.lastKey === null) {
+      exhausted = true;
+      break;
     }
-  }
 
-  if (uniquePhotoIds.length === 0) {
-    return [];
+    after = page.lastKey;
   }
 
-  const photoTableName = getTableName("photos");
-
-  const batchResponse = await dynamoDocClient.send(
-    new BatchGetCommand({
-      RequestItems: {
-        [photoTableName]: {
-          Keys: uniquePhotoIds.map(
-            (photoId): DynamoKey => ({
-              PK: PHOTO_PARTITION_KEY,
-              SK: photoId,
-            })
-          ),
-        },
-      },
-    })
-  );
+  const nextCursor =
+    exhausted || lastRead === undefined ? null : encodeCursor(lastRead);
+
+  if (photoIdConfidences.size === 0) {
+    return { items: [], nextCursor };
+  }
 
-  const photoItems = batchResponse.Responses?.[photoTableName] ?? [];
+  const photoItems = await store.getPhotos([...photoIdConfidences.keys()]);
   const photoMap = new Map(
     photoItems
       .map((item) => {
@@ -258,22 +907,21 @@ export async function fetchPhotosByLogo(
 
         return [sortKey, mapPhotoItem(item)] as [string, PhotoRecord];
       })
-      .filter((entry): entry is [string, PhotoRecord] => Boolean(entry))
+      .filter((entry): entry is [string, PhotoRecord] => Boolean(entry)),
   );
 
-  return uniquePhotoIds
-    .map((photoId) => {
+  const items = [...photoIdConfidences]
+    .map(([photoId, confidence]) => {
       const photo = photoMap.get(photoId);
       if (!photo) {
         return null;
       }
 
-      const cloned: PhotoRecord = {
-        ...photo,
-        logos: [...photo.logos],
-      };
+      const cloned: PhotoRecord = applyMinConfidence(
+        { ...photo, logos: [...photo.logos] },
+        filter,
+      );
 
-      const confidence = photoIdConfidences.get(photoId);
       if (confidence !== undefined) {
         cloned.matchConfidence = confidence;
       }
@@ -281,4 +929,76 @@ export async function fetchPhotosByLogo(
       return cloned;
     })
     .filter((photo): photo is PhotoRecord => Boolean(photo));
+
+  return withPageImageUrls({
+    items: await withoutDuplicates(items, filter, (canonical) =>
+      applyMinConfidence(canonical, filter).logos.some(
+        (logo) => logo.slug === slug,
+      ),
+    ),
+    nextCursor,
+  });
+}
+
+// evaluates a boolean logo query over whole mapping partitions, so its cost
+// grows with how common the logos are rather than with the page size.
+// matchConfidence is the best detection among the logos the query asks
+// for. with minConfidence, weaker detections don't count as the logo being
+// there, for NOT terms too
+export async function searchPhotosByLogos(
+  requested: LogoQuery,
+  request: PageRequest,
+  filter: PhotoFilter = {},
+): Promise<Page<PhotoRecord>> {
+  const store = getLogoIndexStore();
+  const query = resolveLogoQueryAliases(requested, await fetchAliasTargets());
+  const slugs = logoQuerySlugs(query);
+  const positive = new Set(positiveLogoQuerySlugs(query));
+
+  const confidencesBySlug = new Map(
+    await Promise.all(
+      slugs.map(async (slug) => {
+        const confidences = new Map<string, number | undefined>();
+        for (const item of await store.listLogoMappings(slug)) {
+          const photoId = mappingPhotoId(item);
+          if (
+            !photoId ||
+            !meetsMinConfidence(asNumber(item.confidence), filter)
+          ) {
+            continue;
+          }
+
+          keepBestConfidence(confidences, photoId, item);
+        }
+
+        return [slug, confidences] as const;
+      }),
+    ),
+  );
+
+  const matched = await evaluateLogoQuery(
+    query,
+    (slug) => new Set(confidencesBySlug.get(slug)?.keys()),
+    async () =>
+      new Set(
+        (await store.listPhotos())
+          .map((item) => asString(item.SK))
+          .filter((photoId): photoId is string => Boolean(photoId)),
+      ),
+  );
+
+  const matches = new Map(
+    [...matched].map((photoId) => {
+      const confidences = [...positive]
+        .map((slug) => confidencesBySlug.get(slug)?.get(photoId))
+        .filter((confidence): confidence is number => confidence !== undefined);
+
+      return [
+        photoId,
+        confidences.length > 0 ? Math.max(...confidences) : undefined,
+      ] as const;
+    }),
+  );
+
+  return pageMatchedPhotos(matches, request, filter);
 }
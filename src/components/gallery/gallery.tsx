@@ -2,74 +2,214 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { useMemo, useState } from "react";
-import type { LogoSummary, PhotoRecord } from "@/app/repositories/logo-index";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { LogoSummary } from "@/app/repositories/logo-index";
 import { Button } from "@/components/ui/button";
+import {
+  EMPTY_LOGO_SELECTION,
+  formatLogoQuery,
+  type LogoSelection,
+  selectionToParams,
+  selectionToQuery,
+} from "@/lib/logo-query";
+import {
+  DEFAULT_PHOTO_SORT,
+  hasDateRange,
+  PHOTO_SORTS,
+  type PhotoFilter,
+  type PhotoSort,
+  photoFilterToParams,
+} from "@/lib/photo-filter";
 import { cn } from "@/lib/utils";
+import { LogoSearchBox } from "./logo-search-box";
+import { PhotoUploader } from "./photo-uploader";
+import { type InitialPhotos, usePagedPhotos } from "./use-paged-photos";
 
 type GalleryProps = {
-  initialPhotos: PhotoRecord[];
+  initial: InitialPhotos;
+  initialSelection: LogoSelection;
   logos: LogoSummary[];
 };
 
 const FALLBACK_IMAGE = "/globe.svg";
+// the slider settles before the listing is refetched
+const CONFIDENCE_DEBOUNCE_MS = 250;
 
-export function Gallery({ initialPhotos, logos }: GalleryProps) {
-  const [selectedLogo, setSelectedLogo] = useState<string | null>(null);
+const SORT_LABELS: Record<PhotoSort, string> = {
+  confidence: "Highest confidence",
+  newest: "Newest",
+  oldest: "Oldest",
+  id: "Photo id",
+};
+
+function percent(confidence: number): string {
+  return `${(confidence * 100).toFixed(0)}%`;
+}
+
+function photoCount(count: number): string {
+  return `${count} photo${count === 1 ? "" : "s"}`;
+}
+
+// clicking a logo cycles it through included, excluded and not selected
+function toggleLogo(selection: LogoSelection, slug: string): LogoSelection {
+  const without = (slugs: string[]) => slugs.filter((s) => s !== slug);
+
+  if (selection.include.includes(slug)) {
+    return {
+      ...selection,
+      include: without(selection.include),
+      exclude: [...selection.exclude, slug],
+    };
+  }
+
+  if (selection.exclude.includes(slug)) {
+    return { ...selection, exclude: without(selection.exclude) };
+  }
+
+  return { ...selection, include: [...selection.include, slug] };
+}
+
+function includeLogo(selection: LogoSelection, slug: string): LogoSelection {
+  return {
+    ...selection,
+    include: selection.include.includes(slug)
+      ? selection.include
+      : [...selection.include, slug],
+    exclude: selection.exclude.filter((s) => s !== slug),
+  };
+}
 
-  const filteredPhotos = useMemo(() => {
-    if (!selectedLogo) {
-      return initialPhotos;
+export function Gallery({ initial, initialSelection, logos }: GalleryProps) {
+  const [selection, setSelection] = useState(initialSelection);
+  const [minConfidence, setMinConfidence] = useState(
+    initial.filter.minConfidence ?? 0,
+  );
+  const [confidenceDraft, setConfidenceDraft] = useState(minConfidence);
+  const [sort, setSort] = useState(initial.filter.sort);
+  const query = useMemo(() => {
+    const parsed = selectionToQuery(selection);
+    return parsed ? formatLogoQuery(parsed) : null;
+  }, [selection]);
+  // the logo counts come from the server, so collapsing duplicates is only
+  // switched with ?duplicates=collapse in the url. date ranges are only set
+  // there too
+  const { collapseDuplicates, takenAfter, takenBefore } = initial.filter;
+  const filter = useMemo<PhotoFilter>(
+    () => ({
+      minConfidence: minConfidence || undefined,
+      sort,
+      collapseDuplicates,
+      takenAfter,
+      takenBefore,
+    }),
+    [minConfidence, sort, collapseDuplicates, takenAfter, takenBefore],
+  );
+  const { photos, loading, error, hasMore, loadMore, retry } = usePagedPhotos(
+    initial,
+    query,
+    filter,
+  );
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  // fetch the next page as the end of the grid scrolls into view
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !hasMore) {
+      return;
     }
 
-    return initialPhotos.filter((photo) =>
-      photo.logos?.some((logo) => logo.slug === selectedLogo)
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: "600px 0px" },
     );
-  }, [initialPhotos, selectedLogo]);
+    observer.observe(element);
 
-  const activeLogoSummary = useMemo(() => {
-    if (!selectedLogo) {
-      return null;
-    }
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setMinConfidence(confidenceDraft),
+      CONFIDENCE_DEBOUNCE_MS,
+    );
+
+    return () => clearTimeout(timer);
+  }, [confidenceDraft]);
 
-    return logos.find((logo) => logo.slug === selectedLogo) ?? null;
-  }, [logos, selectedLogo]);
+  // keep the selection in the url so a search can be shared or reloaded
+  useEffect(() => {
+    const params = new URLSearchParams([
+      ...selectionToParams(selection),
+      ...photoFilterToParams(filter),
+    ]).toString();
+    window.history.replaceState(
+      null,
+      "",
+      params ? `?${params}` : window.location.pathname,
+    );
+  }, [selection, filter]);
 
-  const totalPhotosLabel = selectedLogo
-    ? `${filteredPhotos.length} photo${
-        filteredPhotos.length === 1 ? "" : "s"
-      } with ${activeLogoSummary?.name ?? selectedLogo}`
-    : `${initialPhotos.length} photo${initialPhotos.length === 1 ? "" : "s"}`;
+  // a single logo's total is known up front; other counts aren't
+  const singleLogo =
+    selection.include.length === 1 &&
+    selection.exclude.length === 0 &&
+    !filter.minConfidence &&
+    !hasDateRange(filter)
+      ? logos.find((logo) => logo.slug === selection.include[0])
+      : undefined;
+  const loadedLabel = `${photoCount(photos.length)}${hasMore ? " loaded" : ""}`;
+  const totalPhotosLabel = singleLogo
+    ? `${photoCount(singleLogo.totalPhotos)} with ${singleLogo.name}`
+    : query
+      ? `${loadedLabel} matching ${query}`
+      : loadedLabel;
 
   return (
     <div className="flex flex-col gap-10">
       <header className="space-y-3">
         <h1 className="text-3xl font-semibold">Logo Search POC</h1>
         <p className="text-muted-foreground max-w-2xl text-sm sm:text-base">
-          Click on a logo to show photos that contain it.
+          Click a logo to show photos that contain it, and again to exclude it.
         </p>
+        <LogoSearchBox
+          onSelect={(slug) => setSelection(includeLogo(selection, slug))}
+        />
+        <PhotoUploader />
       </header>
 
       <section className="space-y-4">
         <div className="flex flex-wrap items-center gap-2">
           <Button
-            variant={selectedLogo ? "outline" : "default"}
-            onClick={() => setSelectedLogo(null)}
+            variant={query ? "outline" : "default"}
+            onClick={() => setSelection(EMPTY_LOGO_SELECTION)}
           >
             All photos
           </Button>
           {logos.map((logo) => (
             <Button
               key={logo.slug}
-              variant={selectedLogo === logo.slug ? "default" : "outline"}
-              onClick={() => setSelectedLogo(logo.slug)}
+              variant={
+                selection.include.includes(logo.slug) ? "default" : "outline"
+              }
+              onClick={() => setSelection(toggleLogo(selection, logo.slug))}
               className={cn(
                 "gap-2",
                 logo.firstPhotoUrl && logo.firstDetectionBounds
                   ? "h-auto px-3 py-2"
-                  : ""
+                  : "",
+                selection.exclude.includes(logo.slug)
+                  ? "border-destructive text-destructive line-through opacity-70"
+                  : "",
               )}
-              title={logo.name}
+              title={
+                selection.exclude.includes(logo.slug)
+                  ? `Excluding ${logo.name}`
+                  : logo.name
+              }
             >
               {logo.firstPhotoUrl && logo.firstDetectionBounds ? (
                 <>
@@ -87,9 +227,29 @@ export function Gallery({ initialPhotos, logos }: GalleryProps) {
                     const displayHeight = 48;
                     const displayWidth = Math.min(
                       displayHeight * aspectRatio,
-                      200
+                      200,
                     );
 
+                    // the crop made at ingest, when there is one, saves
+                    // loading the whole photo for a chip
+                    if (logo.firstCropUrl) {
+                      return (
+                        <Image
+                          src={logo.firstCropUrl}
+                          alt={logo.name}
+                          width={Math.round(displayWidth)}
+                          height={displayHeight}
+                          unoptimized={true}
+                          priority={true}
+                          className="bg-gray-100 object-contain"
+                          style={{
+                            height: `${displayHeight}px`,
+                            width: `${displayWidth}px`,
+                          }}
+                        />
+                      );
+                    }
+
                     return (
                       <div
                         className="relative overflow-hidden bg-gray-100"
@@ -136,44 +296,114 @@ export function Gallery({ initialPhotos, logos }: GalleryProps) {
             </Button>
           ))}
         </div>
+        {selection.include.length > 1 ? (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Match</span>
+            <Button
+              size="sm"
+              variant={selection.match === "all" ? "default" : "outline"}
+              onClick={() => setSelection({ ...selection, match: "all" })}
+            >
+              All (AND)
+            </Button>
+            <Button
+              size="sm"
+              variant={selection.match === "any" ? "default" : "outline"}
+              onClick={() => setSelection({ ...selection, match: "any" })}
+            >
+              Any (OR)
+            </Button>
+          </div>
+        ) : null}
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Min confidence</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={confidenceDraft}
+              onChange={(event) =>
+                setConfidenceDraft(Number(event.target.value))
+              }
+              className="w-40 accent-primary"
+            />
+            <span className="w-10 tabular-nums">
+              {percent(confidenceDraft)}
+            </span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Sort by</span>
+            <select
+              value={sort ?? DEFAULT_PHOTO_SORT}
+              onChange={(event) =>
+                setSort(
+                  event.target.value === DEFAULT_PHOTO_SORT
+                    ? undefined
+                    : (event.target.value as PhotoSort),
+                )
+              }
+              className="rounded-md border bg-background px-2 py-1"
+            >
+              {PHOTO_SORTS.map((option) => (
+                <option key={option} value={option}>
+                  {SORT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
         <p className="text-xs text-muted-foreground uppercase tracking-wide">
           {totalPhotosLabel}
         </p>
       </section>
 
       <section>
-        {filteredPhotos.length === 0 ? (
+        {photos.length === 0 && !loading && !error ? (
           <div className="flex min-h-[200px] flex-col items-center justify-center gap-2 rounded-xl border border-dashed p-8 text-center text-sm text-muted-foreground">
-            <p>No photos contain that logo yet.</p>
-            <p className="text-xs">Try selecting another logo.</p>
+            <p>No photos match that selection yet.</p>
+            <p className="text-xs">
+              Try other logos or a lower minimum confidence.
+            </p>
           </div>
         ) : (
           <div className="grid gap-5 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-            {filteredPhotos.map((photo) => (
+            {photos.map((photo) => (
               <article
                 key={photo.id}
                 className="flex flex-col overflow-hidden rounded-xl border bg-card text-card-foreground shadow-sm"
               >
                 <div className="relative aspect-[4/3] w-full overflow-hidden bg-muted">
-                  <Link
-                    href={photo.imageUrl ?? FALLBACK_IMAGE}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                  >
+                  <Link href={`/photos/${encodeURIComponent(photo.id)}`}>
                     <Image
-                      src={photo.imageUrl ?? FALLBACK_IMAGE}
+                      src={
+                        photo.thumbnailUrl ?? photo.imageUrl ?? FALLBACK_IMAGE
+                      }
                       alt={`Logo detection asset ${photo.id}`}
                       fill
                       className="object-cover hover:scale-105 transition-transform"
                       sizes="(max-width: 768px) 100vw, (max-width: 1280px) 50vw, 25vw"
                       priority={false}
-                      unoptimized={!photo.imageUrl}
+                      unoptimized={
+                        Boolean(photo.thumbnailUrl) || !photo.imageUrl
+                      }
                     />
                   </Link>
                 </div>
                 <div className="flex flex-1 flex-col gap-4 p-4">
                   <div>
-                    <p className="text-sm font-medium">{photo.id}</p>
+                    <p className="flex items-baseline justify-between gap-2 text-sm font-medium">
+                      <span className="truncate">{photo.id}</span>
+                      {photo.matchConfidence !== undefined ? (
+                        <span
+                          className="shrink-0 text-xs text-primary"
+                          title="Best detection of the selected logos"
+                        >
+                          {percent(photo.matchConfidence)} match
+                        </span>
+                      ) : null}
+                    </p>
                     <p className="text-xs text-muted-foreground">
                       {photo.s3Key ?? "unnamed"}
                     </p>
@@ -191,15 +421,15 @@ export function Gallery({ initialPhotos, logos }: GalleryProps) {
                           }`}
                           className={cn(
                             "rounded-full border px-2 py-1 text-xs",
-                            logo.slug === selectedLogo
+                            selection.include.includes(logo.slug)
                               ? "border-primary bg-primary/10 text-primary"
-                              : "border-border text-foreground"
+                              : "border-border text-foreground",
                           )}
                         >
                           {logo.name}
                           {typeof logo.confidence === "number" &&
                           logo.confidence > 0
-                            ? ` · ${(logo.confidence * 100).toFixed(0)}%`
+                            ? ` · ${percent(logo.confidence)}`
                             : null}
                         </span>
                       ))
@@ -210,6 +440,25 @@ export function Gallery({ initialPhotos, logos }: GalleryProps) {
             ))}
           </div>
         )}
+
+        <div ref={sentinel} aria-hidden />
+
+        {loading ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Loading photos…
+          </p>
+        ) : null}
+
+        {error ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center text-sm">
+            <p className="text-destructive">
+              Couldn&apos;t load photos: {error}
+            </p>
+            <Button variant="outline" onClick={retry}>
+              Try again
+            </Button>
+          </div>
+        ) : null}
       </section>
     </div>
   );
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useId, useState } from "react";
+import type { LogoSuggestion } from "@/app/repositories/logo-index";
+import { cn } from "@/lib/utils";
+
+type LogoSearchBoxProps = {
+  // gets the chosen logo's slug, or with allowNew whatever was typed when
+  // Enter is pressed without a suggestion
+  onSelect: (slug: string) => void;
+  allowNew?: boolean;
+  placeholder?: string;
+};
+
+const SUGGESTION_LIMIT = 8;
+const DEBOUNCE_MS = 150;
+
+export function LogoSearchBox({
+  onSelect,
+  allowNew = false,
+  placeholder = "Search logos, e.g. coke or addidas",
+}: LogoSearchBoxProps) {
+  const listId = useId();
+  const [input, setInput] = useState("");
+  const [suggestions, setSuggestions] = useState<LogoSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  // debounced so typing a name doesn't send a request per keystroke
+  useEffect(() => {
+    const query = input.trim();
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({
+          q: query,
+          limit: String(SUGGESTION_LIMIT),
+        });
+        const response = await fetch(`/api/logo-search?${params}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Request failed (${response.status})`);
+        }
+
+        const body = (await response.json()) as {
+          suggestions: LogoSuggestion[];
+        };
+        setSuggestions(body.suggestions);
+        setActiveIndex(0);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to load logo suggestions", error);
+          setSuggestions([]);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [input]);
+
+  function choose(suggestion: LogoSuggestion) {
+    onSelect(suggestion.slug);
+    setInput("");
+    setSuggestions([]);
+    setOpen(false);
+  }
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      setOpen(true);
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((index) =>
+        suggestions.length === 0
+          ? 0
+          : (index + step + suggestions.length) % suggestions.length,
+      );
+    } else if (event.key === "Enter" && open && suggestions[activeIndex]) {
+      event.preventDefault();
+      choose(suggestions[activeIndex]);
+    } else if (event.key === "Enter" && allowNew && input.trim()) {
+      event.preventDefault();
+      onSelect(input.trim());
+      setInput("");
+      setOpen(false);
+    } else if (event.key === "Escape") {
+      setOpen(false);
+    }
+  }
+
+  const showList = open && suggestions.length > 0;
+
+  return (
+    <div className="relative w-full max-w-sm">
+      <input
+        type="search"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          showList ? `${listId}-${activeIndex}` : undefined
+        }
+        placeholder={placeholder}
+        className="h-9 w-full rounded-md border bg-background px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+        value={input}
+        onChange={(event) => {
+          setInput(event.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // let a click on a suggestion land before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 100)}
+        onKeyDown={handleKeyDown}
+      />
+      {showList ? (
+        <div
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <div
+              key={suggestion.slug}
+              id={`${listId}-${index}`}
+              role="option"
+              tabIndex={-1}
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex cursor-pointer items-center justify-between gap-2 px-3 py-2 text-sm",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "",
+              )}
+              onMouseEnter={() => setActiveIndex(index)}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                choose(suggestion);
+              }}
+            >
+              <span>
+                {suggestion.name}
+                {suggestion.alias ? (
+                  <span className="text-muted-foreground ml-1 text-xs">
+                    ({suggestion.alias})
+                  </span>
+                ) : null}
+              </span>
+              <span className="text-muted-foreground text-xs">
+                {suggestion.totalPhotos}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
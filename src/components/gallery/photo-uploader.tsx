@@ -0,0 +1,177 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type { PhotoRecord } from "@/app/repositories/logo-index";
+import { useReviewerToken } from "@/components/photo/use-reviewer-token";
+import { cn } from "@/lib/utils";
+
+type Upload = {
+  id: number;
+  name: string;
+  status: "waiting" | "processing" | "done" | "failed";
+  photo?: PhotoRecord;
+  error?: string;
+};
+
+type UploadResponse = {
+  photo?: PhotoRecord | null;
+  error?: string;
+};
+
+let nextUploadId = 0;
+
+function percent(confidence: number): string {
+  return `${(confidence * 100).toFixed(0)}%`;
+}
+
+async function sendPhoto(file: File, token: string): Promise<PhotoRecord> {
+  const form = new FormData();
+  form.set("file", file);
+
+  const response = await fetch("/api/uploads", {
+    method: "POST",
+    headers: { authorization: `Bearer ${token.trim()}` },
+    body: form,
+  });
+  const body = (await response.json()) as UploadResponse;
+
+  if (!response.ok || !body.photo) {
+    throw new Error(body.error ?? `Upload failed (${response.status})`);
+  }
+
+  return body.photo;
+}
+
+// drop images here (or pick them) to index them straight away. files go up
+// one at a time, since each one waits for detection. uploading needs a
+// reviewer token
+export function PhotoUploader() {
+  const { reviewerToken, setReviewerToken } = useReviewerToken();
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [dragging, setDragging] = useState(false);
+
+  function update(id: number, change: Partial<Upload>) {
+    setUploads((current) =>
+      current.map((upload) =>
+        upload.id === id ? { ...upload, ...change } : upload,
+      ),
+    );
+  }
+
+  async function upload(files: File[]) {
+    const queued = files
+      .filter((file) => file.type.startsWith("image/"))
+      .map((file) => ({ file, id: nextUploadId++ }));
+    setUploads((current) => [
+      ...queued.map(
+        ({ file, id }): Upload => ({
+          id,
+          name: file.name,
+          status: "waiting",
+        }),
+      ),
+      ...current,
+    ]);
+
+    for (const { file, id } of queued) {
+      update(id, { status: "processing" });
+
+      try {
+        update(id, {
+          status: "done",
+          photo: await sendPhoto(file, reviewerToken),
+        });
+      } catch (error) {
+        update(id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <label
+        className={cn(
+          "flex cursor-pointer flex-col items-center justify-center gap-1 rounded-xl border border-dashed p-6 text-center text-sm text-muted-foreground transition-colors",
+          dragging ? "border-primary bg-primary/5" : "hover:border-primary",
+        )}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setDragging(false);
+          void upload(Array.from(event.dataTransfer.files));
+        }}
+      >
+        <span className="font-medium text-foreground">
+          Drop photos here to index them
+        </span>
+        <span className="text-xs">or click to choose files</span>
+        <input
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp,image/bmp"
+          multiple
+          className="sr-only"
+          onChange={(event) => {
+            void upload(Array.from(event.target.files ?? []));
+            event.target.value = "";
+          }}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Reviewer token</span>
+        <input
+          type="password"
+          value={reviewerToken}
+          onChange={(event) => setReviewerToken(event.target.value)}
+          placeholder="Needed to upload"
+          className="h-8 rounded-md border bg-background px-2"
+        />
+      </label>
+      {uploads.length > 0 ? (
+        <div className="flex flex-col gap-2 text-sm">
+          {uploads.map((item) => (
+            <div key={item.id} className="flex flex-wrap items-center gap-2">
+              {item.photo ? (
+                <Link
+                  href={`/photos/${encodeURIComponent(item.photo.id)}`}
+                  className="font-medium hover:underline"
+                >
+                  {item.name}
+                </Link>
+              ) : (
+                <span className="font-medium">{item.name}</span>
+              )}
+              {item.status === "waiting" ? (
+                <span className="text-muted-foreground">Waiting…</span>
+              ) : null}
+              {item.status === "processing" ? (
+                <span className="text-muted-foreground">Detecting logos…</span>
+              ) : null}
+              {item.status === "failed" ? (
+                <span className="text-destructive">{item.error}</span>
+              ) : null}
+              {item.photo && item.photo.logos.length === 0 ? (
+                <span className="text-muted-foreground">No logos detected</span>
+              ) : null}
+              {item.photo?.logos.map((logo) => (
+                <span
+                  key={logo.detectionIndex}
+                  className="rounded-full border px-2 py-0.5 text-xs"
+                >
+                  {logo.name} · {percent(logo.confidence)}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
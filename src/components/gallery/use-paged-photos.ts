@@ -0,0 +1,152 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PhotoRecord } from "@/app/repositories/logo-index";
+import { DEFAULT_PAGE_SIZE, type Page } from "@/lib/pagination";
+import { type PhotoFilter, photoFilterToParams } from "@/lib/photo-filter";
+
+type PagedPhotos = {
+  photos: PhotoRecord[];
+  nextCursor: string | null;
+  loading: boolean;
+  error: string | null;
+};
+
+type PhotosResponse = {
+  photos?: PhotoRecord[];
+  nextCursor?: string | null;
+  error?: string;
+};
+
+export type InitialPhotos = {
+  // the logo query the page was rendered for, null for all photos
+  query: string | null;
+  filter: PhotoFilter;
+  page: Page<PhotoRecord>;
+};
+
+function pageUrl(
+  query: string | null,
+  filter: PhotoFilter,
+  cursor: string | null,
+): string {
+  const params = photoFilterToParams(filter);
+  params.set("limit", String(DEFAULT_PAGE_SIZE));
+  if (query) {
+    params.set("q", query);
+  }
+
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+
+  return query ? `/api/search?${params}` : `/api/photos?${params}`;
+}
+
+// a photo can turn up twice if the index changes between pages
+function appendPhotos(
+  existing: PhotoRecord[],
+  incoming: PhotoRecord[],
+): PhotoRecord[] {
+  const seen = new Set(existing.map((photo) => photo.id));
+  return [...existing, ...incoming.filter((photo) => !seen.has(photo.id))];
+}
+
+// pages through all photos, or the photos matching a logo query, from the
+// api. whichever listing the page was rendered for starts from the server
+// rendered first page. `filter` should keep its identity between renders
+export function usePagedPhotos(
+  initial: InitialPhotos,
+  query: string | null,
+  filter: PhotoFilter,
+) {
+  const [state, setState] = useState<PagedPhotos>({
+    photos: initial.page.items,
+    nextCursor: initial.page.nextCursor,
+    loading: false,
+    error: null,
+  });
+  const request = useRef<AbortController | null>(null);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      request.current?.abort();
+      const controller = new AbortController();
+      request.current = controller;
+
+      setState((current) => ({ ...current, loading: true, error: null }));
+
+      try {
+        const response = await fetch(pageUrl(query, filter, cursor), {
+          signal: controller.signal,
+        });
+        const body = (await response.json()) as PhotosResponse;
+
+        if (!response.ok) {
+          throw new Error(body.error ?? `Request failed (${response.status})`);
+        }
+
+        setState((current) => ({
+          photos: cursor
+            ? appendPhotos(current.photos, body.photos ?? [])
+            : (body.photos ?? []),
+          nextCursor: body.nextCursor ?? null,
+          loading: false,
+          error: null,
+        }));
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        setState((current) => ({
+          ...current,
+          loading: false,
+          error:
+            error instanceof Error ? error.message : "Unable to load photos",
+        }));
+      }
+    },
+    [query, filter],
+  );
+
+  // a new query or filter starts over, unless it's the listing rendered on
+  // the server
+  useEffect(() => {
+    if (
+      pageUrl(query, filter, null) ===
+      pageUrl(initial.query, initial.filter, null)
+    ) {
+      request.current?.abort();
+      setState({
+        photos: initial.page.items,
+        nextCursor: initial.page.nextCursor,
+        loading: false,
+        error: null,
+      });
+    } else {
+      setState({ photos: [], nextCursor: null, loading: true, error: null });
+      void fetchPage(null);
+    }
+
+    return () => request.current?.abort();
+  }, [query, filter, initial, fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (!state.loading && !state.error && state.nextCursor) {
+      void fetchPage(state.nextCursor);
+    }
+  }, [state.loading, state.error, state.nextCursor, fetchPage]);
+
+  // retries whichever page failed: the first one if nothing has loaded yet
+  const retry = useCallback(() => {
+    void fetchPage(state.photos.length > 0 ? state.nextCursor : null);
+  }, [state.photos.length, state.nextCursor, fetchPage]);
+
+  return {
+    ...state,
+    hasMore: state.nextCursor !== null,
+    loadMore,
+    retry,
+  };
+}
@@ -0,0 +1,422 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useRef, useState } from "react";
+import type {
+  LogoDetection,
+  PhotoRecord,
+  SuppressedDetection,
+} from "@/app/repositories/logo-index";
+import { LogoSearchBox } from "@/components/gallery/logo-search-box";
+import { Button } from "@/components/ui/button";
+import { orientedSize } from "@/lib/image-size";
+import { EMPTY_LOGO_SELECTION, selectionToParams } from "@/lib/logo-query";
+import { cn } from "@/lib/utils";
+import { useDetectionReview } from "./use-detection-review";
+
+type PhotoDetectionsProps = {
+  photo: PhotoRecord;
+};
+
+type Point = { x: number; y: number };
+
+const FALLBACK_IMAGE = "/globe.svg";
+// used for the layout until the image reports its real size
+const PLACEHOLDER_SIZE = { width: 1600, height: 1200 };
+
+const SUPPRESSION_LABELS: Record<SuppressedDetection["reason"], string> = {
+  blocklist: "blocklisted",
+  allowlist: "not on the allowlist",
+  confidence: "below the confidence threshold",
+  area: "box too small",
+  rejected: "rejected",
+};
+
+type Box = {
+  detection: LogoDetection;
+  suppressed: boolean;
+  points: string;
+  // top left corner as a percentage of the image, for the label
+  left: number;
+  top: number;
+};
+
+function percent(confidence: number): string {
+  return `${(confidence * 100).toFixed(0)}%`;
+}
+
+function logoGalleryHref(slug: string): string {
+  return `/?${selectionToParams({ ...EMPTY_LOGO_SELECTION, include: [slug] })}`;
+}
+
+// two vertices are opposite corners of the box
+function corners(points: Point[]): Point[] {
+  return points.length === 2
+    ? [
+        points[0],
+        { x: points[1].x, y: points[0].y },
+        points[1],
+        { x: points[0].x, y: points[1].y },
+      ]
+    : points;
+}
+
+function detectionBox(
+  detection: LogoDetection,
+  size: { width: number; height: number },
+  suppressed: boolean,
+): Box | null {
+  const points = detection.boundingPoly ?? [];
+  if (points.length < 2) {
+    return null;
+  }
+
+  return {
+    detection,
+    suppressed,
+    points: corners(points)
+      .map((point) => `${point.x},${point.y}`)
+      .join(" "),
+    left: (Math.min(...points.map((point) => point.x)) / size.width) * 100,
+    top: (Math.min(...points.map((point) => point.y)) / size.height) * 100,
+  };
+}
+
+function reviewNote(detection: LogoDetection): string | null {
+  const { review } = detection;
+  if (!review) {
+    return detection.source === "manual" ? "tagged by hand" : null;
+  }
+
+  const by = `by ${review.reviewer}`;
+  if (review.status === "relabelled" && review.original) {
+    return `relabelled from ${review.original.name} ${by}`;
+  }
+
+  return `${review.status} ${by}`;
+}
+
+// the photo with each detection's box drawn over it, and the controls to
+// review them. hovering a logo picks out its box and clicking it opens the
+// gallery filtered to that logo
+export function PhotoDetections({ photo: initial }: PhotoDetectionsProps) {
+  const { photo, reviewerToken, setReviewerToken, review, pending, error } =
+    useDetectionReview(initial);
+  // boxes are in the photo's pixels as shown. the size recorded at ingest
+  // is exact; the loaded image's size is only a fallback, since the image
+  // optimizer may have served a smaller copy
+  const storedSize = photo.imageSize
+    ? orientedSize(photo.imageSize, photo.orientation)
+    : undefined;
+  const [naturalSize, setNaturalSize] = useState(storedSize);
+  const [active, setActive] = useState<number | null>(null);
+  const [relabelling, setRelabelling] = useState<number | null>(null);
+  const [drawing, setDrawing] = useState(false);
+  const [draft, setDraft] = useState<[Point, Point] | null>(null);
+  const dragging = useRef(false);
+  const overlay = useRef<HTMLDivElement>(null);
+
+  const size = naturalSize ?? PLACEHOLDER_SIZE;
+  const suppressed = photo.suppressedLogos ?? [];
+  const boxes = naturalSize
+    ? [
+        ...photo.logos.map((logo) => detectionBox(logo, naturalSize, false)),
+        ...suppressed.map((logo) => detectionBox(logo, naturalSize, true)),
+      ].filter((box): box is Box => Boolean(box))
+    : [];
+  const canReview = reviewerToken.trim().length > 0 && !pending;
+
+  // pointer position in image pixels
+  function imagePoint(event: React.PointerEvent): Point {
+    const bounds = overlay.current?.getBoundingClientRect();
+    if (!bounds) {
+      return { x: 0, y: 0 };
+    }
+
+    const clamp = (value: number, max: number) =>
+      Math.round(Math.min(Math.max(value, 0), max));
+
+    return {
+      x: clamp(
+        ((event.clientX - bounds.left) / bounds.width) * size.width,
+        size.width,
+      ),
+      y: clamp(
+        ((event.clientY - bounds.top) / bounds.height) * size.height,
+        size.height,
+      ),
+    };
+  }
+
+  function addDraft(logo: string) {
+    if (draft) {
+      void review({ action: "add", logo, boundingPoly: draft });
+    }
+
+    setDraft(null);
+    setDrawing(false);
+  }
+
+  function isDimmed(detectionIndex: number) {
+    return active !== null && active !== detectionIndex;
+  }
+
+  function reviewButtons(detection: LogoDetection, isSuppressed: boolean) {
+    const { detectionIndex } = detection;
+
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!canReview}
+          onClick={() => review({ action: "confirm", detectionIndex })}
+        >
+          {isSuppressed ? "Restore" : "Confirm"}
+        </Button>
+        {detection.review?.status === "rejected" ? null : (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!canReview}
+            onClick={() => review({ action: "reject", detectionIndex })}
+          >
+            Reject
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!canReview}
+          onClick={() =>
+            setRelabelling(
+              relabelling === detectionIndex ? null : detectionIndex,
+            )
+          }
+        >
+          Relabel
+        </Button>
+        {relabelling === detectionIndex ? (
+          <LogoSearchBox
+            allowNew
+            placeholder="Relabel as…"
+            onSelect={(logo) => {
+              setRelabelling(null);
+              void review({ action: "relabel", detectionIndex, logo });
+            }}
+          />
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="relative overflow-hidden rounded-xl border bg-muted">
+        <Image
+          src={photo.imageUrl ?? FALLBACK_IMAGE}
+          alt={`Photo ${photo.id}`}
+          width={size.width}
+          height={size.height}
+          className="h-auto w-full"
+          sizes="(max-width: 1280px) 100vw, 1280px"
+          unoptimized={!photo.imageUrl}
+          priority
+          onLoad={(event) => {
+            const image = event.currentTarget;
+            if (!storedSize && image.naturalWidth && image.naturalHeight) {
+              setNaturalSize({
+                width: image.naturalWidth,
+                height: image.naturalHeight,
+              });
+            }
+          }}
+        />
+        {naturalSize ? (
+          <svg
+            className="pointer-events-none absolute inset-0 h-full w-full"
+            viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+            preserveAspectRatio="none"
+            aria-hidden="true"
+          >
+            {boxes.map((box) => (
+              <polygon
+                key={box.detection.detectionIndex}
+                points={box.points}
+                vectorEffect="non-scaling-stroke"
+                strokeDasharray={box.suppressed ? "6 4" : undefined}
+                className={cn(
+                  "fill-transparent stroke-2 transition-opacity",
+                  active === box.detection.detectionIndex
+                    ? "fill-primary/20 stroke-primary"
+                    : box.suppressed
+                      ? "stroke-muted-foreground"
+                      : "stroke-amber-400",
+                  isDimmed(box.detection.detectionIndex) && "opacity-30",
+                )}
+              />
+            ))}
+            {draft ? (
+              <polygon
+                points={corners(draft)
+                  .map((point) => `${point.x},${point.y}`)
+                  .join(" ")}
+                vectorEffect="non-scaling-stroke"
+                className="fill-primary/20 stroke-primary stroke-2"
+              />
+            ) : null}
+          </svg>
+        ) : null}
+        {boxes
+          .filter((box) => !box.suppressed)
+          .map((box) => (
+            <span
+              key={box.detection.detectionIndex}
+              className={cn(
+                "pointer-events-none absolute rounded px-1.5 py-0.5 text-xs font-medium whitespace-nowrap transition-opacity",
+                // boxes at the top edge get their label inside instead
+                box.top > 6 && "-translate-y-full",
+                active === box.detection.detectionIndex
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-amber-400 text-black",
+                isDimmed(box.detection.detectionIndex) && "opacity-30",
+              )}
+              style={{ left: `${box.left}%`, top: `${box.top}%` }}
+            >
+              {box.detection.name} · {percent(box.detection.confidence)}
+            </span>
+          ))}
+        {drawing && naturalSize ? (
+          <div
+            ref={overlay}
+            role="application"
+            aria-label="Drag to draw a box around the missed logo"
+            className="absolute inset-0 cursor-crosshair touch-none"
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId);
+              dragging.current = true;
+              const start = imagePoint(event);
+              setDraft([start, start]);
+            }}
+            onPointerMove={(event) => {
+              if (dragging.current) {
+                const end = imagePoint(event);
+                setDraft((current) => (current ? [current[0], end] : null));
+              }
+            }}
+            onPointerUp={() => {
+              dragging.current = false;
+            }}
+          />
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Reviewer token</span>
+          <input
+            type="password"
+            value={reviewerToken}
+            onChange={(event) => setReviewerToken(event.target.value)}
+            placeholder="Your review token"
+            className="h-8 rounded-md border bg-background px-2"
+          />
+        </label>
+        <Button
+          size="sm"
+          variant={drawing ? "default" : "outline"}
+          disabled={!canReview || !naturalSize}
+          onClick={() => {
+            setDrawing(!drawing);
+            setDraft(null);
+          }}
+        >
+          {drawing ? "Cancel box" : "Add missed logo"}
+        </Button>
+        {drawing && draft ? (
+          <LogoSearchBox
+            allowNew
+            placeholder="Which logo is in the box?"
+            onSelect={addDraft}
+          />
+        ) : null}
+        {pending ? (
+          <span className="text-muted-foreground">Saving…</span>
+        ) : null}
+        {error ? <span className="text-destructive">{error}</span> : null}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        {photo.logos.length === 0 ? (
+          <span className="w-fit rounded-full border px-3 py-1 text-sm text-muted-foreground">
+            No logos detected
+          </span>
+        ) : (
+          photo.logos.map((logo) => (
+            <div
+              key={logo.detectionIndex}
+              className="flex flex-wrap items-center gap-3"
+            >
+              <Link
+                href={logoGalleryHref(logo.slug)}
+                onMouseEnter={() => setActive(logo.detectionIndex)}
+                onMouseLeave={() => setActive(null)}
+                onFocus={() => setActive(logo.detectionIndex)}
+                onBlur={() => setActive(null)}
+                className={cn(
+                  "rounded-full border px-3 py-1 text-sm transition-colors",
+                  active === logo.detectionIndex
+                    ? "border-primary bg-primary/10 text-primary"
+                    : "hover:border-primary",
+                )}
+                title={`Show photos with ${logo.name}`}
+              >
+                {logo.name} · {percent(logo.confidence)}
+                {logo.boundingPoly && logo.boundingPoly.length >= 2 ? null : (
+                  <span className="text-muted-foreground"> (no box)</span>
+                )}
+              </Link>
+              {reviewNote(logo) ? (
+                <span className="text-xs text-muted-foreground">
+                  {reviewNote(logo)}
+                </span>
+              ) : null}
+              {reviewButtons(logo, false)}
+            </div>
+          ))
+        )}
+      </div>
+
+      {suppressed.length > 0 ? (
+        <div className="flex flex-col gap-3">
+          <h2 className="text-sm font-medium text-muted-foreground">
+            Not indexed
+          </h2>
+          {suppressed.map((logo) => (
+            <div
+              key={logo.detectionIndex}
+              className="flex flex-wrap items-center gap-3"
+            >
+              <Link
+                href={logoGalleryHref(logo.slug)}
+                onMouseEnter={() => setActive(logo.detectionIndex)}
+                onMouseLeave={() => setActive(null)}
+                onFocus={() => setActive(logo.detectionIndex)}
+                onBlur={() => setActive(null)}
+                className="rounded-full border border-dashed px-3 py-1 text-sm text-muted-foreground hover:border-primary"
+                title={`Show photos with ${logo.name}`}
+              >
+                {logo.name} · {percent(logo.confidence)}
+              </Link>
+              <span className="text-xs text-muted-foreground">
+                {reviewNote(logo) ?? SUPPRESSION_LABELS[logo.reason]}
+              </span>
+              {reviewButtons(logo, true)}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { PhotoRecord } from "@/app/repositories/logo-index";
+import type { ReviewAction } from "@/lib/detection-review";
+import { useReviewerToken } from "./use-reviewer-token";
+
+type ReviewResponse = {
+  photo?: PhotoRecord | null;
+  error?: string;
+};
+
+// sends review decisions for one photo and keeps the latest copy of it
+export function useDetectionReview(initial: PhotoRecord) {
+  const [photo, setPhoto] = useState(initial);
+  const { reviewerToken, setReviewerToken } = useReviewerToken();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const review = useCallback(
+    async (action: ReviewAction) => {
+      setPending(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/photos/${encodeURIComponent(photo.id)}/review`,
+          {
+            method: "POST",
+            headers: {
+              "content-type": "application/json",
+              authorization: `Bearer ${reviewerToken.trim()}`,
+            },
+            body: JSON.stringify(action),
+          },
+        );
+        const body = (await response.json()) as ReviewResponse;
+
+        if (!response.ok || !body.photo) {
+          throw new Error(body.error ?? `Request failed (${response.status})`);
+        }
+
+        setPhoto(body.photo);
+      } catch (reviewError) {
+        setError(
+          reviewError instanceof Error
+            ? reviewError.message
+            : "Unable to save the review",
+        );
+      } finally {
+        setPending(false);
+      }
+    },
+    [photo.id, reviewerToken],
+  );
+
+  return {
+    photo,
+    reviewerToken,
+    setReviewerToken,
+    review,
+    pending,
+    error,
+  };
+}
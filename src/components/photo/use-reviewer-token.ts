@@ -0,0 +1,22 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+// remembered between visits so reviewers only paste their token once
+const REVIEWER_TOKEN_STORAGE_KEY = "logo-search:reviewer-token";
+
+// the token reviews and uploads are sent with, shared across pages
+export function useReviewerToken() {
+  const [reviewerToken, setToken] = useState("");
+
+  useEffect(() => {
+    setToken(window.localStorage.getItem(REVIEWER_TOKEN_STORAGE_KEY) ?? "");
+  }, []);
+
+  const setReviewerToken = useCallback((token: string) => {
+    setToken(token);
+    window.localStorage.setItem(REVIEWER_TOKEN_STORAGE_KEY, token);
+  }, []);
+
+  return { reviewerToken, setReviewerToken };
+}
@@ -0,0 +1,51 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function bearerToken(request: Request): string | undefined {
+  const header = request.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+
+  return match?.[1].trim();
+}
+
+// hashed first so the comparison doesn't leak the token's length
+function sameToken(given: string, token: string): boolean {
+  return timingSafeEqual(digest(given), digest(token));
+}
+
+// admin routes expect "Authorization: Bearer <ADMIN_API_TOKEN>". with no
+// token configured they refuse everyone rather than allow everyone
+export function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  const given = bearerToken(request);
+
+  return Boolean(token && given && sameToken(given, token));
+}
+
+// REVIEWER_API_TOKENS is a comma separated list of name:token pairs, e.g.
+// "ana:s3cret,sam:0ther". reviewers send their token as a bearer token and
+// are recorded under its name. the admin token reviews as "admin"
+export function requestReviewer(request: Request): string | undefined {
+  const given = bearerToken(request);
+  if (!given) {
+    return undefined;
+  }
+
+  if (isAdminRequest(request)) {
+    return "admin";
+  }
+
+  for (const pair of (process.env.REVIEWER_API_TOKENS ?? "").split(",")) {
+    const separator = pair.indexOf(":");
+    const name = pair.slice(0, separator).trim();
+    const token = pair.slice(separator + 1).trim();
+    if (separator > 0 && name && token && sameToken(given, token)) {
+      return name;
+    }
+  }
+
+  return undefined;
+}
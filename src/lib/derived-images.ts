@@ -0,0 +1,133 @@
+import sharp from "sharp";
+
+import { DERIVED_IMAGE_FOLDER, type PhotoSource } from "./photo-sources";
+import type { LogoDetection } from "./schema";
+
+// wide enough for a gallery card on a retina screen
+const THUMBNAIL_WIDTH = 480;
+// logo chips are drawn about 40px tall
+const CROP_HEIGHT = 96;
+const CONTENT_TYPE = "image/webp";
+
+export type DerivedImage = {
+  key: string;
+  url?: string;
+};
+
+export type DerivedImages = {
+  thumbnail?: DerivedImage;
+  // by detectionIndex
+  crops: Map<number, DerivedImage>;
+};
+
+type Box = { left: number; top: number; width: number; height: number };
+
+// the bounding rectangle of a detection, clipped to the image. null when
+// it has no area left
+function cropBox(
+  detection: LogoDetection,
+  width: number,
+  height: number,
+): Box | null {
+  const points = detection.boundingPoly ?? [];
+  if (points.length < 2) {
+    return null;
+  }
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(width, Math.ceil(Math.max(...xs)));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// ("photos-shoe", "thumbnail") -> ".derived/photos-shoe/thumbnail.webp"
+function derivedImageName(photoId: string, name: string): string {
+  return `${DERIVED_IMAGE_FOLDER}/${photoId}/${name}.webp`;
+}
+
+// for a photo that has been taken out of the index
+export async function removeDerivedImages(
+  source: PhotoSource,
+  photoId: string,
+): Promise<void> {
+  await source.removeFolder?.(`${DERIVED_IMAGE_FOLDER}/${photoId}`);
+}
+
+// a thumbnail of the photo and a crop of each detected logo, written next
+// to the photo. sources the app can't write to get none, and a photo sharp
+// can't decode is indexed without them
+export async function writeDerivedImages(
+  source: PhotoSource,
+  photoId: string,
+  bytes: Buffer,
+  logos: LogoDetection[],
+): Promise<DerivedImages> {
+  const derived: DerivedImages = { crops: new Map() };
+  const write = source.write?.bind(source);
+  if (!write) {
+    return derived;
+  }
+
+  const save = async (name: string, image: sharp.Sharp) => {
+    const object = await write(
+      derivedImageName(photoId, name),
+      await image.webp().toBuffer(),
+      CONTENT_TYPE,
+    );
+    return { key: object.key, url: source.publicUrl(object.key) };
+  };
+
+  try {
+    // rotate() applies the EXIF orientation the way the browser does, and
+    // bounding boxes are drawn over the photo as the browser shows it
+    const image = sharp(bytes).rotate();
+    derived.thumbnail = await save(
+      "thumbnail",
+      image
+        .clone()
+        .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true }),
+    );
+
+    const { width, height } = (await image.metadata()).autoOrient;
+    for (const logo of logos) {
+      const box = cropBox(logo, width, height);
+      if (!box) {
+        continue;
+      }
+
+      derived.crops.set(
+        logo.detectionIndex,
+        await save(
+          `logo-${logo.detectionIndex}`,
+          image
+            .clone()
+            .extract(box)
+            .resize({ height: CROP_HEIGHT, withoutEnlargement: true }),
+        ),
+      );
+    }
+  } catch (error) {
+    console.warn(`Couldn't make thumbnails for ${photoId}`, error);
+  }
+
+  return derived;
+}
+
+// copies crop keys and urls onto the detections they were cut from
+export function withCrops<T extends LogoDetection>(
+  logos: T[],
+  crops: Map<number, DerivedImage>,
+): T[] {
+  return logos.map((logo) => {
+    const crop = crops.get(logo.detectionIndex);
+    return crop ? { ...logo, cropKey: crop.key, cropUrl: crop.url } : logo;
+  });
+}
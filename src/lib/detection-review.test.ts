@@ -0,0 +1,244 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import {
+  InvalidReviewError,
+  parseReviewAction,
+  reviewDetection,
+  UnknownPhotoError,
+} from "./detection-review";
+import { createFileLogoIndexStore, type LogoIndexStore } from "./index-store";
+import { type PhotoWrite, savePhoto, storedPhotoWrite } from "./index-writer";
+import type { LogoDetection } from "./schema";
+
+function detection(name: string, detectionIndex: number): LogoDetection {
+  return {
+    name,
+    slug: name.toLowerCase(),
+    confidence: 0.8,
+    detectionIndex,
+  };
+}
+
+let dir: string;
+let files = 0;
+let store: LogoIndexStore;
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "detection-review-"));
+});
+
+beforeEach(async () => {
+  files += 1;
+  store = createFileLogoIndexStore({
+    filePath: path.join(dir, `index-${files}.json`),
+  });
+
+  await savePhoto(store, {
+    photoId: "p1",
+    s3Key: "photos/p1.jpg",
+    detections: [detection("Nike", 0), detection("Adidas", 2)],
+    suppressedDetections: [{ ...detection("Puma", 1), reason: "confidence" }],
+  });
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function stored(): Promise<PhotoWrite> {
+  const item = await store.getPhoto("p1");
+  assert.ok(item);
+  return storedPhotoWrite(item);
+}
+
+async function totalPhotos(slug: string) {
+  return (await store.getLogo(slug))?.totalPhotos;
+}
+
+describe("reviewDetection", () => {
+  it("confirms a detection without changing what is indexed", async () => {
+    const result = await reviewDetection(
+      store,
+      "p1",
+      { action: "confirm", detectionIndex: 0 },
+      " ada ",
+    );
+    const photo = await stored();
+
+    assert.deepEqual(result?.addedSlugs, []);
+    assert.equal(photo.detections[0].review?.status, "confirmed");
+    assert.equal(photo.detections[0].review?.reviewer, "ada");
+    assert.equal(await totalPhotos("nike"), 1);
+  });
+
+  it("moves a rejected detection to the suppressed list", async () => {
+    const result = await reviewDetection(
+      store,
+      "p1",
+      { action: "reject", detectionIndex: 2 },
+      "ada",
+    );
+    const photo = await stored();
+
+    assert.deepEqual(result?.removedSlugs, ["adidas"]);
+    assert.deepEqual(
+      photo.detections.map((d) => d.slug),
+      ["nike"],
+    );
+    assert.deepEqual(
+      photo.suppressedDetections?.map((d) => [d.detectionIndex, d.reason]),
+      [
+        [1, "confidence"],
+        [2, "rejected"],
+      ],
+    );
+    assert.equal(await totalPhotos("adidas"), 0);
+  });
+
+  it("indexes a suppressed detection once a reviewer confirms it", async () => {
+    await reviewDetection(
+      store,
+      "p1",
+      { action: "confirm", detectionIndex: 1 },
+      "ada",
+    );
+    const photo = await stored();
+
+    assert.deepEqual(
+      photo.detections.map((d) => d.detectionIndex),
+      [0, 1, 2],
+    );
+    assert.equal(photo.suppressedDetections, undefined);
+    assert.equal(await totalPhotos("puma"), 1);
+  });
+
+  it("relabels through aliases and remembers vision's name", async () => {
+    await store.putLogoAlias({
+      alias: "swoosh",
+      displayName: "Swoosh",
+      slug: "adidas",
+    });
+
+    await reviewDetection(
+      store,
+      "p1",
+      { action: "relabel", detectionIndex: 0, logo: "Swoosh" },
+      "ada",
+    );
+    await reviewDetection(
+      store,
+      "p1",
+      { action: "relabel", detectionIndex: 0, logo: "Reebok" },
+      "ada",
+    );
+    const [relabelled] = (await stored()).detections;
+
+    assert.equal(relabelled.slug, "reebok");
+    assert.equal(relabelled.review?.status, "relabelled");
+    assert.deepEqual(relabelled.review?.original, {
+      name: "Nike",
+      slug: "nike",
+    });
+    assert.equal(await totalPhotos("nike"), 0);
+    assert.equal(await totalPhotos("reebok"), 1);
+  });
+
+  it("adds a box a reviewer drew after the numbered detections", async () => {
+    const boundingPoly = [
+      { x: 1, y: 2 },
+      { x: 30, y: 40 },
+    ];
+
+    await reviewDetection(
+      store,
+      "p1",
+      { action: "add", logo: "Nike", boundingPoly },
+      "ada",
+    );
+    await reviewDetection(
+      store,
+      "p1",
+      { action: "add", logo: "Puma", boundingPoly },
+      "ada",
+    );
+    const added = (await stored()).detections.filter(
+      (d) => d.source === "review",
+    );
+
+    assert.deepEqual(
+      added.map((d) => [d.detectionIndex, d.slug, d.review?.status]),
+      [
+        [1000, "nike", "added"],
+        [1001, "puma", "added"],
+      ],
+    );
+    assert.equal(await totalPhotos("nike"), 1);
+  });
+
+  it("rejects unknown photos, detections and reviewers", async () => {
+    await assert.rejects(
+      reviewDetection(
+        store,
+        "p9",
+        { action: "confirm", detectionIndex: 0 },
+        "ada",
+      ),
+      UnknownPhotoError,
+    );
+    await assert.rejects(
+      reviewDetection(
+        store,
+        "p1",
+        { action: "confirm", detectionIndex: 7 },
+        "ada",
+      ),
+      InvalidReviewError,
+    );
+    await assert.rejects(
+      reviewDetection(
+        store,
+        "p1",
+        { action: "confirm", detectionIndex: 0 },
+        " ",
+      ),
+      InvalidReviewError,
+    );
+  });
+});
+
+describe("parseReviewAction", () => {
+  it("accepts each action", () => {
+    assert.deepEqual(
+      parseReviewAction({ action: "reject", detectionIndex: 2, logo: "x" }),
+      { action: "reject", detectionIndex: 2 },
+    );
+    assert.deepEqual(
+      parseReviewAction({
+        action: "add",
+        logo: "Nike",
+        boundingPoly: [
+          { x: 0, y: 0 },
+          { x: 1, y: 1 },
+        ],
+      }).action,
+      "add",
+    );
+  });
+
+  it("rejects malformed bodies", () => {
+    for (const body of [
+      null,
+      [],
+      { action: "delete", detectionIndex: 0 },
+      { action: "confirm", detectionIndex: 1.5 },
+      { action: "relabel", detectionIndex: 0, logo: " " },
+      { action: "add", logo: "Nike", boundingPoly: [{ x: 0, y: 0 }] },
+    ]) {
+      assert.throws(() => parseReviewAction(body), InvalidReviewError);
+    }
+  });
+});
@@ -0,0 +1,272 @@
+import type { LogoIndexStore } from "./index-store";
+import {
+  type PhotoWrite,
+  type SavePhotoResult,
+  updateStoredPhoto,
+} from "./index-writer";
+import { normalizeLogoName } from "./logo-names";
+import {
+  ADDED_DETECTION_INDEX_BASE,
+  type DetectionReview,
+  type LogoDetection,
+  readLogoAliasTargets,
+  type SuppressedDetection,
+} from "./schema";
+
+export type ReviewAction =
+  | { action: "confirm"; detectionIndex: number }
+  | { action: "reject"; detectionIndex: number }
+  | { action: "relabel"; detectionIndex: number; logo: string }
+  | {
+      action: "add";
+      logo: string;
+      boundingPoly: Array<{ x: number; y: number }>;
+    };
+
+export class UnknownPhotoError extends Error {
+  constructor(photoId: string) {
+    super(`There is no photo "${photoId}".`);
+    this.name = "UnknownPhotoError";
+  }
+}
+
+export class InvalidReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidReviewError";
+  }
+}
+
+export type LogoTarget = {
+  // the logo a relabel, added box or tag points at, already alias resolved
+  slug: string;
+  name: string;
+};
+
+function isPoint(value: unknown): value is { x: number; y: number } {
+  const point = value as { x?: unknown; y?: unknown } | null;
+  return (
+    typeof point?.x === "number" &&
+    typeof point.y === "number" &&
+    Number.isFinite(point.x) &&
+    Number.isFinite(point.y)
+  );
+}
+
+export function isBoundingPoly(
+  value: unknown,
+): value is Array<{ x: number; y: number }> {
+  return Array.isArray(value) && value.length >= 2 && value.every(isPoint);
+}
+
+// checks a request body, e.g. { "action": "relabel", "detectionIndex": 2,
+// "logo": "coca-cola" }
+export function parseReviewAction(body: unknown): ReviewAction {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new InvalidReviewError("The request body must be a JSON object.");
+  }
+
+  const { action, detectionIndex, logo, boundingPoly } = body as Record<
+    string,
+    unknown
+  >;
+
+  if (action === "add") {
+    if (typeof logo !== "string" || !normalizeLogoName(logo)) {
+      throw new InvalidReviewError("logo is required to add a detection.");
+    }
+
+    if (!isBoundingPoly(boundingPoly)) {
+      throw new InvalidReviewError(
+        "boundingPoly must be a list of at least two {x, y} points.",
+      );
+    }
+
+    return { action, logo, boundingPoly };
+  }
+
+  if (action !== "confirm" && action !== "reject" && action !== "relabel") {
+    throw new InvalidReviewError(
+      "action must be confirm, reject, relabel or add.",
+    );
+  }
+
+  if (typeof detectionIndex !== "number" || !Number.isInteger(detectionIndex)) {
+    throw new InvalidReviewError("detectionIndex is required.");
+  }
+
+  if (action === "relabel") {
+    if (typeof logo !== "string" || !normalizeLogoName(logo)) {
+      throw new InvalidReviewError("logo is required to relabel a detection.");
+    }
+
+    return { action, detectionIndex, logo };
+  }
+
+  return { action, detectionIndex };
+}
+
+// the logo a typed name means, following aliases, with its display name
+export async function resolveLogoTarget(
+  store: LogoIndexStore,
+  logo: string,
+): Promise<LogoTarget> {
+  const requested = normalizeLogoName(logo);
+  const aliases = readLogoAliasTargets(await store.listLogoAliases());
+  const slug = aliases.get(requested) ?? requested;
+  const summary = await store.getLogo(slug);
+
+  return {
+    slug,
+    name:
+      typeof summary?.displayName === "string"
+        ? summary.displayName
+        : logo.trim(),
+  };
+}
+
+function withoutReason({
+  reason: _reason,
+  ...detection
+}: SuppressedDetection): LogoDetection {
+  return detection;
+}
+
+function byIndex(a: LogoDetection, b: LogoDetection): number {
+  return a.detectionIndex - b.detectionIndex;
+}
+
+// the index for a detection a person adds to the photo
+export function addedDetectionIndex(photo: PhotoWrite): number {
+  const used = [...photo.detections, ...(photo.suppressedDetections ?? [])].map(
+    (detection) => detection.detectionIndex,
+  );
+
+  return Math.max(ADDED_DETECTION_INDEX_BASE - 1, ...used) + 1;
+}
+
+// the photo with one detection reviewed. rejected detections move to the
+// suppressed list so they stop counting; anything else a reviewer touches
+// is indexed, even if the rules had suppressed it
+function applyReview(
+  photo: PhotoWrite,
+  action: ReviewAction,
+  review: Omit<DetectionReview, "status">,
+  target: LogoTarget | null,
+): PhotoWrite {
+  const suppressed = photo.suppressedDetections ?? [];
+
+  if (action.action === "add") {
+    const detection: LogoDetection = {
+      name: target?.name ?? action.logo,
+      slug: target?.slug ?? normalizeLogoName(action.logo),
+      confidence: 1,
+      boundingPoly: action.boundingPoly,
+      detectionIndex: addedDetectionIndex(photo),
+      source: "review",
+      review: { ...review, status: "added" },
+    };
+
+    return { ...photo, detections: [...photo.detections, detection] };
+  }
+
+  const existing =
+    photo.detections.find(
+      (detection) => detection.detectionIndex === action.detectionIndex,
+    ) ??
+    suppressed.find(
+      (detection) => detection.detectionIndex === action.detectionIndex,
+    );
+  if (!existing) {
+    throw new InvalidReviewError(
+      `Photo ${photo.photoId} has no detection ${action.detectionIndex}.`,
+    );
+  }
+
+  const detection =
+    "reason" in existing
+      ? withoutReason(existing as SuppressedDetection)
+      : existing;
+  const others = {
+    detections: photo.detections.filter(
+      (other) => other.detectionIndex !== action.detectionIndex,
+    ),
+    suppressed: suppressed.filter(
+      (other) => other.detectionIndex !== action.detectionIndex,
+    ),
+  };
+
+  if (action.action === "reject") {
+    const rejected: SuppressedDetection = {
+      ...detection,
+      reason: "rejected",
+      review: { ...review, status: "rejected" },
+    };
+
+    return {
+      ...photo,
+      detections: others.detections,
+      suppressedDetections: [...others.suppressed, rejected].sort(byIndex),
+    };
+  }
+
+  const reviewed: LogoDetection =
+    action.action === "relabel" && target
+      ? {
+          ...detection,
+          name: target.name,
+          slug: target.slug,
+          review: {
+            ...review,
+            status: "relabelled",
+            // relabelling twice still remembers what vision said
+            original: detection.review?.original ?? {
+              name: detection.name,
+              slug: detection.slug,
+            },
+          },
+        }
+      : {
+          ...detection,
+          review: {
+            ...review,
+            status: "confirmed",
+            original: detection.review?.original,
+          },
+        };
+
+  return {
+    ...photo,
+    detections: [...others.detections, reviewed].sort(byIndex),
+    suppressedDetections:
+      others.suppressed.length > 0 ? others.suppressed : undefined,
+  };
+}
+
+// records a reviewer's decision on one detection of a photo. the write goes
+// through the index writer, so mappings and logo counts follow it
+export async function reviewDetection(
+  store: LogoIndexStore,
+  photoId: string,
+  action: ReviewAction,
+  reviewer: string,
+): Promise<SavePhotoResult | null> {
+  const name = reviewer.trim();
+  if (!name) {
+    throw new InvalidReviewError("reviewer is required.");
+  }
+
+  if (!(await store.getPhoto(photoId))) {
+    throw new UnknownPhotoError(photoId);
+  }
+
+  const target =
+    action.action === "relabel" || action.action === "add"
+      ? await resolveLogoTarget(store, action.logo)
+      : null;
+  const review = { reviewer: name, reviewedAt: new Date().toISOString() };
+
+  return updateStoredPhoto(store, photoId, (photo) =>
+    applyReview(photo, action, review, target),
+  );
+}
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  allDetections,
+  applyDetectionRules,
+  type DetectionRules,
+} from "./detection-rules";
+import type { LogoDetection } from "./schema";
+
+function detection(
+  name: string,
+  detectionIndex: number,
+  extra: Partial<LogoDetection> = {},
+): LogoDetection {
+  return {
+    name,
+    slug: name.toLowerCase().replace(/\s+/g, "-"),
+    confidence: 0.9,
+    detectionIndex,
+    ...extra,
+  };
+}
+
+function reasons(detections: LogoDetection[], rules: DetectionRules) {
+  const ruled = applyDetectionRules(detections, rules, {
+    width: 100,
+    height: 100,
+  });
+  return {
+    kept: ruled.detections.map((d) => d.detectionIndex),
+    suppressed: ruled.suppressedDetections.map(
+      (d) => `${d.detectionIndex}:${d.reason}`,
+    ),
+  };
+}
+
+// a box covering `share` of a 100x100 image
+function box(share: number) {
+  const side = Math.sqrt(share) * 100;
+  return [
+    { x: 0, y: 0 },
+    { x: side, y: side },
+  ];
+}
+
+describe("applyDetectionRules", () => {
+  it("keeps everything without rules", () => {
+    assert.deepEqual(reasons([detection("Nike", 0)], {}), {
+      kept: [0],
+      suppressed: [],
+    });
+  });
+
+  it("matches list entries against the slug and the name", () => {
+    assert.deepEqual(
+      reasons([detection("Coca Cola", 0), detection("Nike", 1)], {
+        blocklist: ["coca-cola"],
+      }),
+      { kept: [1], suppressed: ["0:blocklist"] },
+    );
+    assert.deepEqual(
+      reasons([detection("Coca Cola", 0), detection("Nike", 1)], {
+        allowlist: ["coca-cola"],
+      }),
+      { kept: [0], suppressed: ["1:allowlist"] },
+    );
+  });
+
+  it("lets brand thresholds replace the global ones", () => {
+    const rules: DetectionRules = {
+      minConfidence: 0.8,
+      brands: { nike: { minConfidence: 0.5 } },
+    };
+
+    assert.deepEqual(
+      reasons(
+        [
+          detection("Nike", 0, { confidence: 0.6 }),
+          detection("Puma", 1, { confidence: 0.6 }),
+        ],
+        rules,
+      ),
+      { kept: [0], suppressed: ["1:confidence"] },
+    );
+  });
+
+  it("checks the box's share of the image, when it can", () => {
+    assert.deepEqual(
+      reasons(
+        [
+          detection("Nike", 0, { boundingPoly: box(0.001) }),
+          detection("Nike", 1, { boundingPoly: box(0.1) }),
+          detection("Nike", 2),
+        ],
+        { minAreaRatio: 0.01 },
+      ),
+      { kept: [1, 2], suppressed: ["0:area"] },
+    );
+    assert.equal(
+      applyDetectionRules(
+        [detection("Nike", 0, { boundingPoly: box(0.001) })],
+        { minAreaRatio: 0.01 },
+      ).detections.length,
+      1,
+    );
+  });
+
+  it("lets reviews and manual tags win over the rules", () => {
+    const review = { reviewer: "ana", reviewedAt: "2024-01-01T00:00:00Z" };
+    assert.deepEqual(
+      reasons(
+        [
+          detection("Nike", 0, { review: { ...review, status: "confirmed" } }),
+          detection("Nike", 1, { review: { ...review, status: "rejected" } }),
+          detection("Nike", 2, { source: "manual" }),
+        ],
+        { blocklist: ["nike"] },
+      ),
+      { kept: [0, 2], suppressed: ["1:rejected"] },
+    );
+  });
+});
+
+describe("allDetections", () => {
+  it("puts suppressed detections back in detection order", () => {
+    const { detections, suppressedDetections } = applyDetectionRules(
+      [detection("Nike", 0), detection("Puma", 1), detection("Nike", 2)],
+      { blocklist: ["puma"] },
+    );
+
+    assert.deepEqual(allDetections(detections, suppressedDetections), [
+      detection("Nike", 0),
+      detection("Puma", 1),
+      detection("Nike", 2),
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import { readFile } from "node:fs/promises";
+
+import type { ImageSize } from "./image-size";
+import { normalizeLogoName } from "./logo-names";
+import type {
+  LogoDetection,
+  SuppressedDetection,
+  SuppressionReason,
+} from "./schema";
+
+export type DetectionThresholds = {
+  // 0 to 1, compared with the detection's confidence
+  minConfidence?: number;
+  // 0 to 1, the bounding box's share of the image
+  minAreaRatio?: number;
+};
+
+// which detections the ingester indexes. names in the lists and brand keys
+// are matched as slugs, so "Coca Cola" and "coca-cola" are the same logo
+export type DetectionRules = DetectionThresholds & {
+  blocklist?: string[];
+  // when not empty, only these logos are indexed
+  allowlist?: string[];
+  // thresholds for one logo, replacing the global ones it sets
+  brands?: Record<string, DetectionThresholds>;
+};
+
+export type RuledDetections = {
+  detections: LogoDetection[];
+  suppressedDetections: SuppressedDetection[];
+};
+
+function readThreshold(
+  value: unknown,
+  field: string,
+  filePath: string,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "number" || value < 0 || value > 1) {
+    throw new Error(`${field} in ${filePath} must be a number from 0 to 1.`);
+  }
+
+  return value;
+}
+
+function readThresholds(
+  value: Record<string, unknown>,
+  prefix: string,
+  filePath: string,
+): DetectionThresholds {
+  return {
+    minConfidence: readThreshold(
+      value.minConfidence,
+      `${prefix}minConfidence`,
+      filePath,
+    ),
+    minAreaRatio: readThreshold(
+      value.minAreaRatio,
+      `${prefix}minAreaRatio`,
+      filePath,
+    ),
+  };
+}
+
+function readNames(value: unknown, field: string, filePath: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.some((name) => typeof name !== "string")) {
+    throw new Error(`${field} in ${filePath} must be a list of logo names.`);
+  }
+
+  return value.map(normalizeLogoName).filter(Boolean);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// a json file shaped like DetectionRules, e.g.
+//   { "minConfidence": 0.4, "blocklist": ["Instagram"],
+//     "brands": { "nike": { "minConfidence": 0.7 } } }
+export async function loadDetectionRules(
+  filePath: string,
+): Promise<DetectionRules> {
+  const parsed: unknown = JSON.parse(await readFile(filePath, "utf8"));
+  if (!isObject(parsed)) {
+    throw new Error(`${filePath} must contain a JSON object of rules.`);
+  }
+
+  const brands: Record<string, DetectionThresholds> = {};
+  if (parsed.brands !== undefined) {
+    if (!isObject(parsed.brands)) {
+      throw new Error(`brands in ${filePath} must be an object.`);
+    }
+
+    for (const [name, thresholds] of Object.entries(parsed.brands)) {
+      if (!isObject(thresholds)) {
+        throw new Error(`brands.${name} in ${filePath} must be an object.`);
+      }
+
+      brands[normalizeLogoName(name)] = readThresholds(
+        thresholds,
+        `brands.${name}.`,
+        filePath,
+      );
+    }
+  }
+
+  return {
+    ...readThresholds(parsed, "", filePath),
+    blocklist: readNames(parsed.blocklist, "blocklist", filePath),
+    allowlist: readNames(parsed.allowlist, "allowlist", filePath),
+    brands,
+  };
+}
+
+// the bounding rectangle of the box as a share of the image, or null when
+// either size isn't known
+function areaRatio(
+  detection: LogoDetection,
+  imageSize: ImageSize | undefined,
+): number | null {
+  const points = detection.boundingPoly ?? [];
+  if (!imageSize || points.length === 0) {
+    return null;
+  }
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const area =
+    (Math.max(...xs) - Math.min(...xs)) * (Math.max(...ys) - Math.min(...ys));
+
+  return area / (imageSize.width * imageSize.height);
+}
+
+function suppressionReason(
+  detection: LogoDetection,
+  rules: DetectionRules,
+  imageSize: ImageSize | undefined,
+): SuppressionReason | null {
+  // a reviewer's decision stands whatever the rules say
+  if (detection.review) {
+    return detection.review.status === "rejected" ? "rejected" : null;
+  }
+
+  if (detection.source === "manual") {
+    return null;
+  }
+
+  const slugs = [detection.slug, normalizeLogoName(detection.name)];
+  const listed = (names: string[] | undefined) =>
+    slugs.some((slug) => names?.includes(slug));
+
+  if (listed(rules.blocklist)) {
+    return "blocklist";
+  }
+
+  if (rules.allowlist?.length && !listed(rules.allowlist)) {
+    return "allowlist";
+  }
+
+  const brand = slugs
+    .map((slug) => rules.brands?.[slug])
+    .find((thresholds) => thresholds !== undefined);
+  const minConfidence = brand?.minConfidence ?? rules.minConfidence;
+  const minAreaRatio = brand?.minAreaRatio ?? rules.minAreaRatio;
+
+  if (minConfidence !== undefined && detection.confidence < minConfidence) {
+    return "confidence";
+  }
+
+  // a box that can't be measured is given the benefit of the doubt
+  const ratio = areaRatio(detection, imageSize);
+  if (minAreaRatio !== undefined && ratio !== null && ratio < minAreaRatio) {
+    return "area";
+  }
+
+  return null;
+}
+
+// splits detections into the ones to index and the ones to keep aside.
+// both keep their detectionIndex, so mapping keys don't shift when a rule
+// changes
+export function applyDetectionRules(
+  detections: LogoDetection[],
+  rules: DetectionRules,
+  imageSize?: ImageSize,
+): RuledDetections {
+  const ruled: RuledDetections = { detections: [], suppressedDetections: [] };
+
+  for (const detection of detections) {
+    const reason = suppressionReason(detection, rules, imageSize);
+    if (reason) {
+      ruled.suppressedDetections.push({ ...detection, reason });
+    } else {
+      ruled.detections.push(detection);
+    }
+  }
+
+  return ruled;
+}
+
+// every detection vision returned, kept or not, in detection order
+export function allDetections(
+  detections: LogoDetection[],
+  suppressed: SuppressedDetection[] = [],
+): LogoDetection[] {
+  return [
+    ...detections,
+    ...suppressed.map(({ reason: _reason, ...detection }) => detection),
+  ].sort((a, b) => a.detectionIndex - b.detectionIndex);
+}
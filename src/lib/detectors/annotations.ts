@@ -0,0 +1,35 @@
+import { normalizeLogoName } from "../dynamo";
+import type { LogoDetection } from "../schema";
+
+// the subset of a vision EntityAnnotation the ingester cares about
+export type LogoAnnotation = {
+  description?: string | null;
+  score?: number | null;
+  boundingPoly?: {
+    vertices?: Array<{ x?: number | null; y?: number | null } | null> | null;
+  } | null;
+};
+
+export type LogoAnnotationResponse = {
+  logoAnnotations?: LogoAnnotation[] | null;
+};
+
+export function mapLogoAnnotations(
+  annotations: LogoAnnotation[],
+): LogoDetection[] {
+  return annotations
+    .filter((annotation) => annotation.description)
+    .map((annotation, i) => {
+      const name = annotation.description ?? "";
+      return {
+        name,
+        slug: normalizeLogoName(name),
+        confidence: annotation.score ?? 0,
+        boundingPoly: annotation.boundingPoly?.vertices?.map((vertex) => ({
+          x: vertex?.x ?? 0,
+          y: vertex?.y ?? 0,
+        })),
+        detectionIndex: i,
+      };
+    });
+}
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { createFixtureDetector } from "./fixture";
+
+describe("createFixtureDetector", () => {
+  let root: string;
+  let fixturesDir: string;
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "fixtures-"));
+    fixturesDir = path.join(root, "fixtures");
+    await mkdir(path.join(fixturesDir, "photos"), { recursive: true });
+    await writeFile(
+      path.join(fixturesDir, "photos", "a.jpg.json"),
+      JSON.stringify([{ name: "Nike", slug: "nike", confidence: 0.9 }]),
+    );
+    await writeFile(path.join(root, "secret.json"), "[]");
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("replays the fixture recorded for a key", async () => {
+    const detector = createFixtureDetector({ fixturesDir });
+    const detections = await detector.detect(Buffer.from("image"), {
+      key: "photos/a.jpg",
+    });
+
+    assert.deepEqual(detections, [
+      { name: "Nike", slug: "nike", confidence: 0.9, detectionIndex: 0 },
+    ]);
+  });
+
+  it("won't read outside the fixtures directory", async () => {
+    const detector = createFixtureDetector({ fixturesDir });
+
+    for (const key of ["../secret", "photos/../../secret"]) {
+      await assert.rejects(
+        detector.detect(Buffer.from("image"), { key }),
+        /outside/,
+      );
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { LogoDetection } from "../schema";
+import { type LogoAnnotationResponse, mapLogoAnnotations } from "./annotations";
+import type { LogoDetector } from "./types";
+
+export type FixtureDetectorOptions = {
+  fixturesDir: string;
+};
+
+type Fixture = LogoAnnotationResponse | LogoDetection[];
+
+async function readFixture(filePath: string): Promise<Fixture | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as Fixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+function toDetections(fixture: Fixture): LogoDetection[] {
+  if (Array.isArray(fixture)) {
+    return fixture.map((detection, i) => ({
+      ...detection,
+      detectionIndex: detection.detectionIndex ?? i,
+    }));
+  }
+
+  return mapLogoAnnotations(fixture.logoAnnotations ?? []);
+}
+
+// replays detections from disk. a fixture is either a recorded vision
+// response (`{ logoAnnotations }`) or a plain array of detections, looked up
+// as `<fixturesDir>/<key>.json` and then `<fixturesDir>/<sha256 of image>.json`
+export function createFixtureDetector(
+  options: FixtureDetectorOptions,
+): LogoDetector {
+  const fixturesDir = path.resolve(options.fixturesDir);
+
+  return {
+    async detect(image, source) {
+      const digest = createHash("sha256").update(image).digest("hex");
+      const keyPath = path.join(fixturesDir, `${source.key}.json`);
+      if (!keyPath.startsWith(`${fixturesDir}${path.sep}`)) {
+        throw new Error(
+          `Refusing to read a fixture for ${source.key} from outside ${fixturesDir}`,
+        );
+      }
+
+      const candidates = [keyPath, path.join(fixturesDir, `${digest}.json`)];
+
+      for (const candidate of candidates) {
+        const fixture = await readFixture(candidate);
+        if (fixture) {
+          return toDetections(fixture);
+        }
+      }
+
+      throw new Error(
+        `No recorded detections for ${source.key} in ${fixturesDir}`,
+      );
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import vision from "@google-cloud/vision";
+
+import { mapLogoAnnotations } from "./annotations";
+import type { LogoDetector } from "./types";
+
+export type GoogleVisionDetectorOptions = {
+  // when set, every raw vision response is written here so it can be
+  // replayed later by the fixture detector
+  recordDir?: string;
+};
+
+export function createGoogleVisionDetector(
+  options: GoogleVisionDetectorOptions = {},
+): LogoDetector {
+  const client = new vision.ImageAnnotatorClient();
+
+  return {
+    async detect(image, source) {
+      const [result] = await client.logoDetection({
+        image: { content: image },
+      });
+
+      if (options.recordDir) {
+        const recordPath = path.join(options.recordDir, `${source.key}.json`);
+        await mkdir(path.dirname(recordPath), { recursive: true });
+        await writeFile(
+          recordPath,
+          JSON.stringify({ logoAnnotations: result.logoAnnotations }, null, 2),
+        );
+      }
+
+      return mapLogoAnnotations(result.logoAnnotations ?? []);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { createFixtureDetector } from "./fixture";
+import { createGoogleVisionDetector } from "./google-vision";
+import type { LogoDetector } from "./types";
+
+export { mapLogoAnnotations } from "./annotations";
+export { createFixtureDetector } from "./fixture";
+export { createGoogleVisionDetector } from "./google-vision";
+export type * from "./types";
+
+export function createLogoDetector(): LogoDetector {
+  const kind = process.env.LOGO_DETECTOR ?? "vision";
+
+  if (kind === "fixture") {
+    const fixturesDir = process.env.LOGO_DETECTOR_FIXTURES;
+    if (!fixturesDir) {
+      throw new Error(
+        "LOGO_DETECTOR_FIXTURES env var is required for the fixture detector.",
+      );
+    }
+
+    return createFixtureDetector({ fixturesDir });
+  }
+
+  if (kind === "vision") {
+    return createGoogleVisionDetector({
+      recordDir: process.env.LOGO_DETECTOR_RECORD_DIR,
+    });
+  }
+
+  throw new Error(
+    `LOGO_DETECTOR must be "vision" or "fixture", got "${kind}".`,
+  );
+}
@@ -0,0 +1,10 @@
+import type { LogoDetection } from "../schema";
+
+export type DetectionSource = {
+  // object key the image was read from, used to look up recorded responses
+  key: string;
+};
+
+export interface LogoDetector {
+  detect(image: Buffer, source: DetectionSource): Promise<LogoDetection[]>;
+}
@@ -1,6 +1,8 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 
+export { normalizeLogoName } from "./logo-names";
+
 const REGION = process.env.AWS_REGION;
 
 const initClient = new DynamoDBClient({
@@ -14,6 +16,8 @@ export const dynamoDocClient = DynamoDBDocumentClient.from(initClient, {
   },
 });
 
+// each table falls back to DYNAMO_TABLE, so a single-table deployment only
+// needs that one variable
 export function getTableName(
   tableType: "photos" | "logos" | "photo-logos",
 ): string {
@@ -23,23 +27,15 @@ export function getTableName(
     "photo-logos": "DYNAMO_TABLE_PHOTO_LOGOS",
   }[tableType];
 
-  const table = process.env[envKey];
+  const table = process.env[envKey] ?? process.env.DYNAMO_TABLE;
 
   if (!table) {
-    throw new Error(`${envKey} env var is required.`);
+    throw new Error(`${envKey} or DYNAMO_TABLE env var is required.`);
   }
 
   return table;
 }
 
-export function normalizeLogoName(name: string): string {
-  return name
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-+|-+$/g, "");
-}
-
 export function resolvePublicUrl(
   publicUrl: string | undefined,
   s3Key: string | undefined,
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import sharp from "sharp";
+
+import { readPhotoMetadata } from "./image-metadata";
+
+function blankImage() {
+  return sharp({
+    create: { width: 40, height: 20, channels: 3, background: "#336699" },
+  }).jpeg();
+}
+
+// a big-endian EXIF block holding only a GPS directory: 51°30'26.1"N,
+// 0°7'39.6"W, 35.5m below sea level
+function gpsExif(): Buffer {
+  const entry = (tag: number, type: number, count: number, value: Buffer) => {
+    const bytes = Buffer.alloc(12);
+    bytes.writeUInt16BE(tag, 0);
+    bytes.writeUInt16BE(type, 2);
+    bytes.writeUInt32BE(count, 4);
+    value.copy(bytes, 8);
+    return bytes;
+  };
+  const u32 = (...values: number[]) => {
+    const bytes = Buffer.alloc(values.length * 4);
+    values.forEach((value, i) => {
+      bytes.writeUInt32BE(value, i * 4);
+    });
+    return bytes;
+  };
+
+  const header = Buffer.from([0x4d, 0x4d, 0, 42, 0, 0, 0, 8]);
+  const gpsOffset = 8 + 2 + 12 + 4;
+  const dataOffset = gpsOffset + 2 + 12 * 6 + 4;
+  const image = Buffer.concat([
+    Buffer.from([0, 1]),
+    entry(0x8825, 4, 1, u32(gpsOffset)),
+    u32(0),
+  ]);
+  const gps = Buffer.concat([
+    Buffer.from([0, 6]),
+    entry(1, 2, 2, Buffer.from("N\0")),
+    entry(2, 5, 3, u32(dataOffset)),
+    entry(3, 2, 2, Buffer.from("W\0")),
+    entry(4, 5, 3, u32(dataOffset + 24)),
+    entry(5, 1, 1, Buffer.from([1])),
+    entry(6, 5, 1, u32(dataOffset + 48)),
+    u32(0),
+  ]);
+  const values = u32(51, 1, 30, 1, 2610, 100, 0, 1, 7, 1, 3960, 100, 355, 10);
+
+  return Buffer.concat([Buffer.from("Exif\0\0"), header, image, gps, values]);
+}
+
+// puts an APP1 segment right after the JPEG's start marker
+function withApp1(jpeg: Buffer, exif: Buffer): Buffer {
+  const marker = Buffer.from([0xff, 0xe1, 0, 0]);
+  marker.writeUInt16BE(exif.length + 2, 2);
+  return Buffer.concat([jpeg.subarray(0, 2), marker, exif, jpeg.subarray(2)]);
+}
+
+describe("readPhotoMetadata", () => {
+  it("reads the camera, capture time and orientation", async () => {
+    const bytes = await blankImage()
+      .withExif({
+        IFD0: {
+          Make: "Canon",
+          Model: "Canon EOS R5",
+          DateTime: "2020:01:02 03:04:05",
+        },
+        IFD2: {
+          DateTimeOriginal: "2019:12:31 23:59:58",
+          OffsetTimeOriginal: "+10:00",
+        },
+      })
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    assert.deepEqual(await readPhotoMetadata(bytes), {
+      takenAt: "2019-12-31T23:59:58+10:00",
+      camera: { make: "Canon", model: "Canon EOS R5" },
+      gps: undefined,
+      orientation: 6,
+    });
+  });
+
+  it("falls back to the modification time", async () => {
+    const bytes = await blankImage()
+      .withExif({ IFD0: { DateTime: "2022:06:01 12:00:00" } })
+      .toBuffer();
+
+    const metadata = await readPhotoMetadata(bytes);
+    assert.equal(metadata.takenAt, "2022-06-01T12:00:00");
+    assert.equal(metadata.camera, undefined);
+  });
+
+  it("ignores dates that were never set", async () => {
+    const bytes = await blankImage()
+      .withExif({ IFD0: { DateTime: "0000:00:00 00:00:00" } })
+      .toBuffer();
+
+    assert.equal((await readPhotoMetadata(bytes)).takenAt, undefined);
+  });
+
+  it("reads signed GPS coordinates", async () => {
+    const bytes = withApp1(await blankImage().toBuffer(), gpsExif());
+    const { gps } = await readPhotoMetadata(bytes);
+
+    assert.ok(gps);
+    assert.equal(gps.latitude.toFixed(5), "51.50725");
+    assert.equal(gps.longitude.toFixed(5), "-0.12767");
+    assert.equal(gps.altitude, -35.5);
+  });
+
+  it("skips a truncated block", async () => {
+    const exif = gpsExif();
+    const bytes = withApp1(
+      await blankImage().toBuffer(),
+      exif.subarray(0, exif.length - 40),
+    );
+
+    assert.equal((await readPhotoMetadata(bytes)).gps, undefined);
+  });
+
+  it("returns nothing for images without EXIF", async () => {
+    const bytes = await sharp({
+      create: { width: 4, height: 4, channels: 3, background: "#000" },
+    })
+      .png()
+      .toBuffer();
+
+    assert.deepEqual(await readPhotoMetadata(bytes), {
+      orientation: undefined,
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import sharp from "sharp";
+
+import type { PhotoMetadata } from "./schema";
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+// bytes per value of each TIFF field type; 0 for types that aren't read
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8];
+
+type TiffValue = string | number[];
+
+// the tags of one image file directory, by tag number. only ASCII, BYTE,
+// SHORT, LONG and RATIONAL values are read
+function readIfd(
+  tiff: Buffer,
+  offset: number,
+  littleEndian: boolean,
+): Map<number, TiffValue> {
+  const u16 = (at: number) =>
+    littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+  const u32 = (at: number) =>
+    littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+  const tags = new Map<number, TiffValue>();
+
+  const count = u16(offset);
+  for (let index = 0; index < count; index += 1) {
+    const entry = offset + 2 + index * 12;
+    const tag = u16(entry);
+    const type = u16(entry + 2);
+    const values = u32(entry + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * values;
+    if (size === 0) {
+      continue;
+    }
+
+    // values of 4 bytes or fewer sit in the entry itself
+    const start = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (start + size > tiff.length) {
+      continue;
+    }
+
+    if (type === 2) {
+      tags.set(
+        tag,
+        tiff
+          .toString("latin1", start, start + size)
+          .split("\0")[0]
+          .trim(),
+      );
+    } else if (type === 1) {
+      tags.set(tag, [...tiff.subarray(start, start + size)]);
+    } else if (type === 3) {
+      tags.set(
+        tag,
+        Array.from({ length: values }, (_, i) => u16(start + i * 2)),
+      );
+    } else if (type === 4) {
+      tags.set(
+        tag,
+        Array.from({ length: values }, (_, i) => u32(start + i * 4)),
+      );
+    } else if (type === 5) {
+      tags.set(
+        tag,
+        Array.from({ length: values }, (_, i) => {
+          const denominator = u32(start + i * 8 + 4);
+          return denominator ? u32(start + i * 8) / denominator : Number.NaN;
+        }),
+      );
+    }
+  }
+
+  return tags;
+}
+
+function text(value: TiffValue | undefined): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function numbers(value: TiffValue | undefined): number[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// "2024:05:01 14:03:22" and "+10:00" -> "2024-05-01T14:03:22+10:00". an
+// unset date is written as zeros or spaces
+function exifDate(
+  value: string | undefined,
+  offset: string | undefined,
+): string | undefined {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(
+    value ?? "",
+  );
+  if (!match || match[1] === "0000") {
+    return undefined;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+  const iso = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`;
+
+  return Number.isNaN(Date.parse(iso)) ? undefined : iso;
+}
+
+// degrees, minutes and seconds to signed decimal degrees
+function coordinate(
+  value: TiffValue | undefined,
+  ref: string | undefined,
+  negativeRef: string,
+): number | undefined {
+  const [degrees, minutes = 0, seconds = 0] = numbers(value);
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  if (!Number.isFinite(decimal)) {
+    return undefined;
+  }
+
+  return ref === negativeRef ? -decimal : decimal;
+}
+
+function readGps(
+  gps: Map<number, TiffValue>,
+): PhotoMetadata["gps"] | undefined {
+  const latitude = coordinate(
+    gps.get(TAG_GPS_LATITUDE),
+    text(gps.get(TAG_GPS_LATITUDE_REF)),
+    "S",
+  );
+  const longitude = coordinate(
+    gps.get(TAG_GPS_LONGITUDE),
+    text(gps.get(TAG_GPS_LONGITUDE_REF)),
+    "W",
+  );
+  // phones write 0,0 when they had no fix
+  if (
+    latitude === undefined ||
+    longitude === undefined ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180 ||
+    (latitude === 0 && longitude === 0)
+  ) {
+    return undefined;
+  }
+
+  const [altitude] = numbers(gps.get(TAG_GPS_ALTITUDE));
+  const belowSeaLevel = numbers(gps.get(TAG_GPS_ALTITUDE_REF))[0] === 1;
+
+  return {
+    latitude,
+    longitude,
+    altitude: Number.isFinite(altitude)
+      ? belowSeaLevel
+        ? -altitude
+        : altitude
+      : undefined,
+  };
+}
+
+// reads the tags kept from a raw EXIF block, which starts with "Exif\0\0"
+// followed by a TIFF header
+function parseExif(exif: Buffer): Omit<PhotoMetadata, "orientation"> {
+  const tiff =
+    exif.toString("latin1", 0, 4) === "Exif" ? exif.subarray(6) : exif;
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") {
+    return {};
+  }
+
+  const littleEndian = order === "II";
+  const u32 = (at: number) =>
+    littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+  const subIfd = (tags: Map<number, TiffValue>, tag: number) => {
+    const [offset] = numbers(tags.get(tag));
+    return offset ? readIfd(tiff, offset, littleEndian) : new Map();
+  };
+
+  const image = readIfd(tiff, u32(4), littleEndian);
+  const exifTags = subIfd(image, TAG_EXIF_IFD);
+  const make = text(image.get(TAG_MAKE));
+  const model = text(image.get(TAG_MODEL));
+
+  return {
+    takenAt:
+      exifDate(
+        text(exifTags.get(TAG_DATE_TIME_ORIGINAL)),
+        text(exifTags.get(TAG_OFFSET_TIME_ORIGINAL)),
+      ) ?? exifDate(text(image.get(TAG_DATE_TIME)), undefined),
+    camera: make || model ? { make, model } : undefined,
+    gps: readGps(subIfd(image, TAG_GPS_IFD)),
+  };
+}
+
+// the photo's EXIF, as far as it can be read; broken or missing EXIF just
+// leaves fields out. throws for images sharp can't open, like BMPs
+export async function readPhotoMetadata(bytes: Buffer): Promise<PhotoMetadata> {
+  const { exif, orientation } = await sharp(bytes).metadata();
+  let metadata: PhotoMetadata = {};
+
+  if (exif) {
+    try {
+      metadata = parseExif(exif);
+    } catch {
+      // an offset past the end of the block
+    }
+  }
+
+  return {
+    ...metadata,
+    orientation:
+      orientation && orientation >= 1 && orientation <= 8
+        ? orientation
+        : undefined,
+  };
+}
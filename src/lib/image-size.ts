@@ -0,0 +1,123 @@
+export type ImageSize = {
+  width: number;
+  height: number;
+};
+
+function readPngSize(bytes: Buffer): ImageSize | null {
+  // IHDR is always the first chunk
+  if (bytes.length < 24 || bytes.toString("ascii", 12, 16) !== "IHDR") {
+    return null;
+  }
+
+  return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+}
+
+function readGifSize(bytes: Buffer): ImageSize | null {
+  if (bytes.length < 10) {
+    return null;
+  }
+
+  return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+}
+
+// walks the segments up to the first start-of-frame marker
+function readJpegSize(bytes: Buffer): ImageSize | null {
+  let offset = 2;
+
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15, except DHT (c4), JPG (c8) and DAC (cc)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: bytes.readUInt16BE(offset + 5),
+        width: bytes.readUInt16BE(offset + 7),
+      };
+    }
+
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+function readWebpSize(bytes: Buffer): ImageSize | null {
+  if (bytes.length < 30) {
+    return null;
+  }
+
+  const format = bytes.toString("ascii", 12, 16);
+
+  if (format === "VP8 ") {
+    return {
+      width: bytes.readUInt16LE(26) & 0x3fff,
+      height: bytes.readUInt16LE(28) & 0x3fff,
+    };
+  }
+
+  if (format === "VP8L") {
+    const bits = bytes.readUInt32LE(21);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+
+  if (format === "VP8X") {
+    return {
+      width: bytes.readUIntLE(24, 3) + 1,
+      height: bytes.readUIntLE(27, 3) + 1,
+    };
+  }
+
+  return null;
+}
+
+// reads the pixel size from the image header, without decoding the image.
+// null for formats it doesn't know or headers it can't make sense of
+export function readImageSize(bytes: Buffer): ImageSize | null {
+  try {
+    if (bytes.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+      return readPngSize(bytes);
+    }
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return readJpegSize(bytes);
+    }
+
+    if (bytes.toString("ascii", 0, 4) === "GIF8") {
+      return readGifSize(bytes);
+    }
+
+    if (
+      bytes.toString("ascii", 0, 4) === "RIFF" &&
+      bytes.toString("ascii", 8, 12) === "WEBP"
+    ) {
+      return readWebpSize(bytes);
+    }
+  } catch {
+    // a truncated header reads past the end of the buffer
+  }
+
+  return null;
+}
+
+// the size a photo is shown at once its EXIF orientation is applied.
+// orientations 5 to 8 turn it a quarter
+export function orientedSize(
+  size: ImageSize,
+  orientation: number | undefined,
+): ImageSize {
+  return orientation && orientation >= 5
+    ? { width: size.height, height: size.width }
+    : size;
+}
@@ -0,0 +1,88 @@
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+// photos in a private bucket are shown through presigned GET urls. a url is
+// handed out again until shortly before it expires, so pages don't sign
+// every photo on every request and the browser can cache the image
+const EXPIRES_IN_SECONDS = Number(process.env.S3_PRESIGN_EXPIRES_IN ?? 3600);
+const REFRESH_BEFORE_MS = Math.min(5 * 60_000, (EXPIRES_IN_SECONDS * 1000) / 2);
+const MAX_CACHED_URLS = 10_000;
+
+type CachedUrl = {
+  url: Promise<string>;
+  expiresAt: number;
+};
+
+const cache = new Map<string, CachedUrl>();
+let client: S3Client | undefined;
+
+// only the s3 source without a public base needs signing
+function privateBucket(): string | undefined {
+  if (
+    process.env.S3_PUBLIC_BASE_URL ||
+    (process.env.PHOTO_SOURCE ?? "s3") !== "s3"
+  ) {
+    return undefined;
+  }
+
+  return process.env.S3_BUCKET;
+}
+
+function makeRoom(now: number) {
+  for (const [key, cached] of cache) {
+    if (cached.expiresAt - REFRESH_BEFORE_MS <= now) {
+      cache.delete(key);
+    }
+  }
+
+  // maps iterate in insertion order, so this drops the oldest url
+  while (cache.size >= MAX_CACHED_URLS) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+
+    cache.delete(oldest);
+  }
+}
+
+// null when photos aren't in a private bucket. signing uses the server's
+// AWS credentials; with temporary credentials a url stops working when they
+// expire, even if that's sooner than S3_PRESIGN_EXPIRES_IN
+export async function presignedImageUrl(key: string): Promise<string | null> {
+  const bucket = privateBucket();
+  if (!bucket) {
+    return null;
+  }
+
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt - REFRESH_BEFORE_MS > now) {
+    return cached.url;
+  }
+
+  if (cache.size >= MAX_CACHED_URLS) {
+    makeRoom(now);
+  }
+
+  client ??= new S3Client({
+    region: process.env.AWS_REGION ?? "ap-southeast-2",
+  });
+  const entry: CachedUrl = {
+    url: getSignedUrl(
+      client,
+      new GetObjectCommand({ Bucket: bucket, Key: key }),
+      { expiresIn: EXPIRES_IN_SECONDS },
+    ),
+    expiresAt: now + EXPIRES_IN_SECONDS * 1000,
+  };
+  cache.set(key, entry);
+  // a failed signature is tried again next time rather than cached
+  entry.url.catch(() => {
+    if (cache.get(key) === entry) {
+      cache.delete(key);
+    }
+  });
+
+  return entry.url;
+}
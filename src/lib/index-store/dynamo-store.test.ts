@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import type {
+  DynamoDBDocumentClient,
+  QueryCommandInput,
+  TransactWriteCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+
+import { createDynamoLogoIndexStore, singleTable } from "./dynamo-store";
+import { PhotoRevisionConflictError } from "./errors";
+import type { PhotoChange } from "./types";
+
+type TransactItems = NonNullable<TransactWriteCommandInput["TransactItems"]>;
+
+const change: PhotoChange = {
+  photoId: "p1",
+  photo: {
+    photoId: "p1",
+    s3Key: "photos/p1.jpg",
+    detections: [],
+    createdAt: "2024-01-01T00:00:00Z",
+    revision: 2,
+  },
+  expectedRevision: 1,
+  putMappings: [],
+  deleteMappings: [{ slug: "puma", photoId: "p1", detectionIndex: 0 }],
+  summaries: [
+    { slug: "nike", name: "Nike", delta: 1 },
+    { slug: "puma", name: "puma", delta: -1 },
+  ],
+};
+
+function cancelled(...codes: string[]) {
+  return new TransactionCanceledException({
+    message: "Transaction cancelled",
+    $metadata: {},
+    CancellationReasons: codes.map((Code) => ({ Code })),
+  });
+}
+
+// a client that answers each transaction with the next of `responses`,
+// throwing the ones that are errors
+function fakeStore(responses: Array<Error | undefined>) {
+  const sent: TransactItems[] = [];
+  const client = {
+    async send(command: { input: TransactWriteCommandInput }) {
+      sent.push(command.input.TransactItems ?? []);
+      const response = responses.shift();
+      if (response) {
+        throw response;
+      }
+      return {};
+    },
+  } as unknown as DynamoDBDocumentClient;
+
+  return {
+    sent,
+    store: createDynamoLogoIndexStore({ client, tables: singleTable("t") }),
+  };
+}
+
+const summarySlugs = (items: TransactItems) =>
+  items.flatMap((item) =>
+    item.Update
+      ? [`${item.Update.Key?.SK}:${item.Update.ConditionExpression}`]
+      : [],
+  );
+
+describe("dynamo store applyPhotoChange", () => {
+  it("writes everything in one transaction, decrementing only existing summaries", async () => {
+    const { sent, store } = fakeStore([undefined]);
+    await store.applyPhotoChange(change);
+
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].length, 4);
+    assert.equal(sent[0][0].Put?.ConditionExpression, "revision = :revision");
+    assert.deepEqual(summarySlugs(sent[0]), [
+      "nike:undefined",
+      "puma:attribute_exists(PK)",
+    ]);
+  });
+
+  it("drops decrements for deleted summaries and tries again", async () => {
+    const { sent, store } = fakeStore([
+      cancelled("None", "None", "None", "ConditionalCheckFailed"),
+      undefined,
+    ]);
+    await store.applyPhotoChange(change);
+
+    assert.equal(sent.length, 2);
+    assert.deepEqual(summarySlugs(sent[1]), ["nike:undefined"]);
+  });
+
+  it("reports a failed photo condition as a revision conflict", async () => {
+    const { sent, store } = fakeStore([
+      cancelled("ConditionalCheckFailed", "None", "None", "None"),
+    ]);
+
+    await assert.rejects(
+      store.applyPhotoChange(change),
+      PhotoRevisionConflictError,
+    );
+    assert.equal(sent.length, 1);
+  });
+
+  it("rethrows other cancellations", async () => {
+    const error = cancelled("None", "TransactionConflict", "None", "None");
+    const { store } = fakeStore([error]);
+
+    await assert.rejects(store.applyPhotoChange(change), error);
+  });
+});
+
+describe("dynamo store listPhotosPage", () => {
+  // answers every query with two items and a key to carry on from
+  function queryStore() {
+    const sent: QueryCommandInput[] = [];
+    const client = {
+      async send(command: { input: QueryCommandInput }) {
+        sent.push(command.input);
+        return {
+          Items: [{ SK: "a" }, { SK: "b" }],
+          LastEvaluatedKey: { PK: "PHOTO", SK: "b", timeKey: "1000#b" },
+        };
+      },
+    } as unknown as DynamoDBDocumentClient;
+
+    return {
+      sent,
+      store: createDynamoLogoIndexStore({ client, tables: singleTable("t") }),
+    };
+  }
+
+  it("pages by sort key on the table", async () => {
+    const { sent, store } = queryStore();
+    const page = await store.listPhotosPage({ limit: 2, after: "x" });
+
+    assert.equal(sent[0].IndexName, undefined);
+    assert.equal(sent[0].ScanIndexForward, true);
+    assert.deepEqual(sent[0].ExclusiveStartKey, { PK: "PHOTO", SK: "x" });
+    assert.equal(page.lastKey, "b");
+  });
+
+  it("pages newest first through the time index", async () => {
+    const { sent, store } = queryStore();
+    const page = await store.listPhotosPage({
+      limit: 2,
+      after: "10001577836800000#p0",
+      byTime: "newest",
+    });
+
+    assert.equal(sent[0].IndexName, "byTime");
+    assert.equal(sent[0].ScanIndexForward, false);
+    assert.deepEqual(sent[0].ExclusiveStartKey, {
+      PK: "PHOTO",
+      SK: "p0",
+      timeKey: "10001577836800000#p0",
+    });
+    assert.equal(page.lastKey, "1000#b");
+  });
+});
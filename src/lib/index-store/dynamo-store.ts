@@ -0,0 +1,626 @@
+import {
+  ConditionalCheckFailedException,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  type DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  type TransactWriteCommandInput,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+
+import { dynamoDocClient, getTableName } from "../dynamo";
+import { backoffDelay, sleep, withRetry } from "../retry";
+import {
+  buildLogoAliasItem,
+  buildLogoMappingItem,
+  buildLogoRepresentativeFields,
+  buildPhotoItem,
+  INGEST_FAILURE_PARTITION_KEY,
+  LOGO_ALIAS_PARTITION_KEY,
+  LOGO_PARTITION_KEY,
+  LOGO_REPRESENTATIVE_FIELDS,
+  type LogoRepresentative,
+  logoMappingItemKey,
+  logoMappingPartitionKey,
+  PHOTO_PARTITION_KEY,
+  SCHEMA_VERSION,
+  sortKeyFromTimeKey,
+} from "../schema";
+import { PhotoRevisionConflictError } from "./errors";
+import type {
+  IndexItem,
+  LogoIndexStore,
+  LogoSummaryDelta,
+  PartitionPage,
+  PartitionPageRequest,
+} from "./types";
+
+// a global secondary index on each table, keyed by PK and timeKey, for
+// paging photos and logo mappings by time
+export const TIME_INDEX_NAME = "byTime";
+
+const MAX_TRANSACT_ITEMS = 100;
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_UNPROCESSED_ATTEMPTS = 8;
+
+type TransactItem = NonNullable<
+  TransactWriteCommandInput["TransactItems"]
+>[number];
+
+export type DynamoTables = {
+  photos: string;
+  logos: string;
+  photoLogos: string;
+};
+
+export type DynamoStoreOptions = {
+  client?: DynamoDBDocumentClient;
+  tables?: DynamoTables;
+};
+
+export type WriteRequest =
+  | {
+      PutRequest: {
+        Item: IndexItem;
+      };
+    }
+  | {
+      DeleteRequest: {
+        Key: { PK: string; SK: string };
+      };
+    };
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const buckets: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    buckets.push(items.slice(i, i + size));
+  }
+  return buckets;
+}
+
+// writes in batches of 25, resubmitting anything dynamo hands back as
+// unprocessed with backoff until MAX_UNPROCESSED_ATTEMPTS is used up
+export async function batchWrite(
+  client: DynamoDBDocumentClient,
+  tableName: string,
+  requests: WriteRequest[],
+) {
+  for (const batch of chunk(requests, 25)) {
+    let pending = batch;
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const requestItems = { [tableName]: pending };
+      const response = await withRetry(
+        () =>
+          client.send(
+            new BatchWriteCommand({
+              RequestItems: requestItems,
+            }),
+          ),
+        { label: `BatchWrite to ${tableName}` },
+      );
+
+      pending = (response.UnprocessedItems?.[tableName] ??
+        []) as WriteRequest[];
+      if (pending.length === 0) {
+        break;
+      }
+
+      if (attempt >= MAX_UNPROCESSED_ATTEMPTS) {
+        throw new Error(
+          `Gave up on ${pending.length} unprocessed writes to ${tableName} after ${attempt} attempts.`,
+        );
+      }
+
+      console.warn(`Retrying ${pending.length} unprocessed writes...`);
+      await sleep(backoffDelay(attempt));
+    }
+  }
+}
+
+function revisionCondition(expectedRevision: number | null) {
+  if (expectedRevision === null) {
+    return { ConditionExpression: "attribute_not_exists(PK)" };
+  }
+
+  return {
+    // items written before revisions existed count as revision 0
+    ConditionExpression:
+      expectedRevision === 0
+        ? "attribute_not_exists(revision) OR revision = :revision"
+        : "revision = :revision",
+    ExpressionAttributeValues: { ":revision": expectedRevision },
+  };
+}
+
+// builds a SET for the representative fields that have values and a REMOVE
+// for the rest, since undefined values can't be referenced in an expression
+function representativeUpdate(representative: LogoRepresentative | null) {
+  const fields = representative
+    ? buildLogoRepresentativeFields(representative)
+    : {};
+  const assignments: string[] = [];
+  const removals: string[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const field of LOGO_REPRESENTATIVE_FIELDS) {
+    const value = fields[field];
+    if (value === undefined) {
+      removals.push(field);
+      continue;
+    }
+
+    assignments.push(`${field} = :${field}`);
+    values[`:${field}`] = value;
+  }
+
+  const clauses = [
+    assignments.length > 0 ? `SET ${assignments.join(", ")}` : "",
+    removals.length > 0 ? `REMOVE ${removals.join(", ")}` : "",
+  ];
+
+  return {
+    UpdateExpression: clauses.filter(Boolean).join(" "),
+    ExpressionAttributeValues:
+      Object.keys(values).length > 0 ? values : undefined,
+  };
+}
+
+export function singleTable(tableName: string): DynamoTables {
+  return {
+    photos: tableName,
+    logos: tableName,
+    photoLogos: tableName,
+  };
+}
+
+export function createDynamoLogoIndexStore(
+  options: DynamoStoreOptions = {},
+): LogoIndexStore {
+  const client = options.client ?? dynamoDocClient;
+  const tables = options.tables ?? {
+    photos: getTableName("photos"),
+    logos: getTableName("logos"),
+    photoLogos: getTableName("photo-logos"),
+  };
+
+  // query by partition rather than scanning so the same code works whether
+  // photos, logos and mappings share one table or live in three. a query
+  // stops at 1 MB, so this keeps going until the page is full. byTime
+  // queries the time index, whose start key needs the table's keys too
+  async function queryPartitionPage(
+    tableName: string,
+    partitionKey: string,
+    request: Partial<PartitionPageRequest> = {},
+  ): Promise<PartitionPage> {
+    const { after, byTime } = request;
+    const items: IndexItem[] = [];
+    let startKey: Record<string, unknown> | undefined =
+      after === undefined
+        ? undefined
+        : byTime
+          ? { PK: partitionKey, SK: sortKeyFromTimeKey(after), timeKey: after }
+          : { PK: partitionKey, SK: after };
+
+    do {
+      const remaining =
+        request.limit === undefined ? undefined : request.limit - items.length;
+      const response = await client.send(
+        new QueryCommand({
+          TableName: tableName,
+          IndexName: byTime ? TIME_INDEX_NAME : undefined,
+          ScanIndexForward: byTime !== "newest",
+          KeyConditionExpression: "PK = :pk",
+          ExpressionAttributeValues: {
+            ":pk": partitionKey,
+          },
+          ExclusiveStartKey: startKey,
+          Limit: remaining,
+        }),
+      );
+
+      items.push(...(response.Items ?? []));
+      startKey = response.LastEvaluatedKey;
+    } while (
+      startKey &&
+      (request.limit === undefined || items.length < request.limit)
+    );
+
+    return {
+      items,
+      lastKey: startKey
+        ? String(byTime ? startKey.timeKey : startKey.SK)
+        : null,
+    };
+  }
+
+  async function queryPartition(tableName: string, partitionKey: string) {
+    return (await queryPartitionPage(tableName, partitionKey)).items;
+  }
+
+  // adds the delta to a logo's totalPhotos. a gain creates the summary for
+  // the logo's first photo; a loss only applies to a summary that still
+  // exists, so it can't bring back a deleted or merged logo at -1
+  function summaryAction(summary: LogoSummaryDelta): TransactItem {
+    return {
+      Update: {
+        TableName: tables.logos,
+        Key: {
+          PK: LOGO_PARTITION_KEY,
+          SK: summary.slug,
+        },
+        UpdateExpression:
+          "SET displayName = if_not_exists(displayName, :name), schemaVersion = :version ADD #total :delta",
+        ConditionExpression:
+          summary.delta < 0 ? "attribute_exists(PK)" : undefined,
+        ExpressionAttributeValues: {
+          ":name": summary.name,
+          ":version": SCHEMA_VERSION,
+          ":delta": summary.delta,
+        },
+        ExpressionAttributeNames: {
+          "#total": "totalPhotos",
+        },
+      },
+    };
+  }
+
+  return {
+    async getPhoto(photoId) {
+      const { Item } = await client.send(
+        new GetCommand({
+          TableName: tables.photos,
+          Key: {
+            PK: PHOTO_PARTITION_KEY,
+            SK: photoId,
+          },
+        }),
+      );
+
+      return Item ?? null;
+    },
+
+    async applyPhotoChange(change) {
+      const photoAction: TransactItem = change.photo
+        ? {
+            Put: {
+              TableName: tables.photos,
+              Item: buildPhotoItem(change.photo),
+              ...revisionCondition(change.expectedRevision),
+            },
+          }
+        : {
+            Delete: {
+              TableName: tables.photos,
+              Key: { PK: PHOTO_PARTITION_KEY, SK: change.photoId },
+              ...revisionCondition(change.expectedRevision),
+            },
+          };
+      const mappingActions: TransactItem[] = [
+        ...change.putMappings.map(
+          (mapping): TransactItem => ({
+            Put: {
+              TableName: tables.photoLogos,
+              Item: buildLogoMappingItem(mapping),
+            },
+          }),
+        ),
+        ...change.deleteMappings.map(
+          (mapping): TransactItem => ({
+            Delete: {
+              TableName: tables.photoLogos,
+              Key: logoMappingItemKey(mapping),
+            },
+          }),
+        ),
+      ];
+      let summaries = change.summaries;
+
+      for (;;) {
+        const actions: TransactItem[] = [
+          photoAction,
+          ...mappingActions,
+          ...summaries.map(summaryAction),
+        ];
+
+        if (actions.length > MAX_TRANSACT_ITEMS) {
+          throw new Error(
+            `Photo ${change.photoId} needs ${actions.length} writes, more than the ${MAX_TRANSACT_ITEMS} a transaction allows.`,
+          );
+        }
+
+        try {
+          await client.send(
+            new TransactWriteCommand({
+              TransactItems: actions,
+            }),
+          );
+          return;
+        } catch (error) {
+          if (!(error instanceof TransactionCanceledException)) {
+            throw error;
+          }
+
+          const failed = (error.CancellationReasons ?? []).map(
+            (reason) => reason?.Code === "ConditionalCheckFailed",
+          );
+
+          // the photo write is always the first action
+          if (failed[0]) {
+            throw new PhotoRevisionConflictError(change.photoId);
+          }
+
+          // a decrement only fails when its summary has been deleted or
+          // merged away. nothing was written, so go again without those
+          const offset = 1 + mappingActions.length;
+          const remaining = summaries.filter(
+            (_, index) => !failed[offset + index],
+          );
+          if (remaining.length === summaries.length) {
+            throw error;
+          }
+
+          summaries = remaining;
+        }
+      }
+    },
+
+    async offerLogoRepresentative(slug, representative) {
+      try {
+        await client.send(
+          new UpdateCommand({
+            TableName: tables.logos,
+            Key: {
+              PK: LOGO_PARTITION_KEY,
+              SK: slug,
+            },
+            ...representativeUpdate(representative),
+            ConditionExpression:
+              "attribute_exists(PK) AND (attribute_not_exists(topConfidence) OR topConfidence < :topConfidence)",
+          }),
+        );
+      } catch (error) {
+        // an equal or better detection is already the representative
+        if (error instanceof ConditionalCheckFailedException) {
+          return;
+        }
+
+        throw error;
+      }
+    },
+
+    async setLogoRepresentative(slug, representative) {
+      try {
+        await client.send(
+          new UpdateCommand({
+            TableName: tables.logos,
+            Key: {
+              PK: LOGO_PARTITION_KEY,
+              SK: slug,
+            },
+            ...representativeUpdate(representative),
+            ConditionExpression: "attribute_exists(PK)",
+          }),
+        );
+      } catch (error) {
+        // the summary has been deleted; don't recreate it without a count
+        if (error instanceof ConditionalCheckFailedException) {
+          return;
+        }
+
+        throw error;
+      }
+    },
+
+    async recordIngestFailure(failure) {
+      await client.send(
+        new UpdateCommand({
+          TableName: tables.photos,
+          Key: {
+            PK: INGEST_FAILURE_PARTITION_KEY,
+            SK: failure.key,
+          },
+          UpdateExpression:
+            "SET errorName = :errorName, message = :message, lastFailedAt = :failedAt, firstFailedAt = if_not_exists(firstFailedAt, :failedAt), schemaVersion = :version ADD attempts :one",
+          ExpressionAttributeValues: {
+            ":errorName": failure.errorName,
+            ":message": failure.message,
+            ":failedAt": failure.failedAt,
+            ":version": SCHEMA_VERSION,
+            ":one": 1,
+          },
+        }),
+      );
+    },
+
+    async clearIngestFailure(key) {
+      await client.send(
+        new DeleteCommand({
+          TableName: tables.photos,
+          Key: {
+            PK: INGEST_FAILURE_PARTITION_KEY,
+            SK: key,
+          },
+        }),
+      );
+    },
+
+    async listIngestFailures() {
+      return queryPartition(tables.photos, INGEST_FAILURE_PARTITION_KEY);
+    },
+
+    async putLogoAlias(alias) {
+      await client.send(
+        new PutCommand({
+          TableName: tables.logos,
+          Item: buildLogoAliasItem(alias),
+        }),
+      );
+    },
+
+    async deleteLogoAlias(alias) {
+      await client.send(
+        new DeleteCommand({
+          TableName: tables.logos,
+          Key: {
+            PK: LOGO_ALIAS_PARTITION_KEY,
+            SK: alias,
+          },
+        }),
+      );
+    },
+
+    async listLogoAliases() {
+      return queryPartition(tables.logos, LOGO_ALIAS_PARTITION_KEY);
+    },
+
+    async listPhotos() {
+      return queryPartition(tables.photos, PHOTO_PARTITION_KEY);
+    },
+
+    async listPhotosPage(request) {
+      return queryPartitionPage(tables.photos, PHOTO_PARTITION_KEY, request);
+    },
+
+    async getLogo(slug) {
+      const { Item } = await client.send(
+        new GetCommand({
+          TableName: tables.logos,
+          Key: {
+            PK: LOGO_PARTITION_KEY,
+            SK: slug,
+          },
+        }),
+      );
+
+      return Item ?? null;
+    },
+
+    async renameLogo(slug, rename) {
+      try {
+        await client.send(
+          new UpdateCommand({
+            TableName: tables.logos,
+            Key: {
+              PK: LOGO_PARTITION_KEY,
+              SK: slug,
+            },
+            UpdateExpression:
+              "SET displayName = :name, nameHistory = list_append(if_not_exists(nameHistory, :empty), :previous)",
+            ConditionExpression: "attribute_exists(PK)",
+            ExpressionAttributeValues: {
+              ":name": rename.displayName,
+              ":empty": [],
+              ":previous": [
+                { displayName: rename.previousName, until: rename.renamedAt },
+              ],
+            },
+          }),
+        );
+      } catch (error) {
+        // nothing to rename
+        if (error instanceof ConditionalCheckFailedException) {
+          return;
+        }
+
+        throw error;
+      }
+    },
+
+    async deleteEmptyLogo(slug) {
+      try {
+        await client.send(
+          new DeleteCommand({
+            TableName: tables.logos,
+            Key: {
+              PK: LOGO_PARTITION_KEY,
+              SK: slug,
+            },
+            ConditionExpression:
+              "attribute_exists(PK) AND (attribute_not_exists(totalPhotos) OR totalPhotos <= :zero)",
+            ExpressionAttributeValues: { ":zero": 0 },
+          }),
+        );
+        return true;
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+          return false;
+        }
+
+        throw error;
+      }
+    },
+
+    async listLogos() {
+      return queryPartition(tables.logos, LOGO_PARTITION_KEY);
+    },
+
+    async listLogosPage(request) {
+      return queryPartitionPage(tables.logos, LOGO_PARTITION_KEY, request);
+    },
+
+    async listLogoMappings(slug) {
+      return queryPartition(tables.photoLogos, logoMappingPartitionKey(slug));
+    },
+
+    async listLogoMappingsPage(slug, request) {
+      return queryPartitionPage(
+        tables.photoLogos,
+        logoMappingPartitionKey(slug),
+        request,
+      );
+    },
+
+    // batches of 100 keys, resubmitting unprocessed keys with backoff the
+    // same way batchWrite does
+    async getPhotos(photoIds) {
+      const items: IndexItem[] = [];
+
+      for (const batch of chunk([...new Set(photoIds)], MAX_BATCH_GET_KEYS)) {
+        let pending: Array<Record<string, unknown>> = batch.map((photoId) => ({
+          PK: PHOTO_PARTITION_KEY,
+          SK: photoId,
+        }));
+
+        for (let attempt = 1; pending.length > 0; attempt++) {
+          const keys = pending;
+          const response = await withRetry(
+            () =>
+              client.send(
+                new BatchGetCommand({
+                  RequestItems: {
+                    [tables.photos]: { Keys: keys },
+                  },
+                }),
+              ),
+            { label: `BatchGet from ${tables.photos}` },
+          );
+
+          items.push(...(response.Responses?.[tables.photos] ?? []));
+          pending = response.UnprocessedKeys?.[tables.photos]?.Keys ?? [];
+          if (pending.length === 0) {
+            break;
+          }
+
+          if (attempt >= MAX_UNPROCESSED_ATTEMPTS) {
+            throw new Error(
+              `Gave up on ${pending.length} unprocessed reads from ${tables.photos} after ${attempt} attempts.`,
+            );
+          }
+
+          console.warn(`Retrying ${pending.length} unprocessed reads...`);
+          await sleep(backoffDelay(attempt));
+        }
+      }
+
+      return items;
+    },
+  };
+}
@@ -0,0 +1,6 @@
+export class PhotoRevisionConflictError extends Error {
+  constructor(photoId: string) {
+    super(`Photo ${photoId} changed while it was being written.`);
+    this.name = "PhotoRevisionConflictError";
+  }
+}
@@ -0,0 +1,191 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import { savePhoto } from "../index-writer";
+import type { LogoDetection } from "../schema";
+import { PhotoRevisionConflictError } from "./errors";
+import { createFileLogoIndexStore } from "./file-store";
+import type { LogoIndexStore, PhotoChange } from "./types";
+
+function detection(slug: string, detectionIndex: number): LogoDetection {
+  return { name: slug, slug, confidence: 0.9, detectionIndex };
+}
+
+function change(overrides: Partial<PhotoChange> = {}): PhotoChange {
+  return {
+    photoId: "p1",
+    photo: {
+      photoId: "p1",
+      s3Key: "photos/p1.jpg",
+      detections: [],
+      createdAt: "2024-01-01T00:00:00Z",
+      revision: 1,
+    },
+    expectedRevision: null,
+    putMappings: [],
+    deleteMappings: [],
+    summaries: [],
+    ...overrides,
+  };
+}
+
+describe("file store applyPhotoChange", () => {
+  let dir: string;
+  let files = 0;
+  let store: LogoIndexStore;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "logo-index-"));
+  });
+
+  beforeEach(() => {
+    files += 1;
+    store = createFileLogoIndexStore({
+      filePath: path.join(dir, `index-${files}.json`),
+    });
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes the photo, its mappings and counts together", async () => {
+    await savePhoto(store, {
+      photoId: "p1",
+      s3Key: "photos/p1.jpg",
+      detections: [detection("nike", 0), detection("nike", 1)],
+    });
+
+    assert.equal((await store.getPhoto("p1"))?.revision, 1);
+    assert.equal((await store.listLogoMappings("nike")).length, 2);
+    assert.equal((await store.getLogo("nike"))?.totalPhotos, 1);
+  });
+
+  it("rejects a change made against an older revision", async () => {
+    await store.applyPhotoChange(change());
+
+    await assert.rejects(
+      store.applyPhotoChange(change()),
+      PhotoRevisionConflictError,
+    );
+    await assert.rejects(
+      store.applyPhotoChange(change({ expectedRevision: 2 })),
+      PhotoRevisionConflictError,
+    );
+  });
+
+  it("writes nothing when the change conflicts", async () => {
+    await store.applyPhotoChange(change());
+    await assert.rejects(
+      store.applyPhotoChange(
+        change({ summaries: [{ slug: "nike", name: "Nike", delta: 1 }] }),
+      ),
+    );
+
+    assert.equal(await store.getLogo("nike"), null);
+  });
+
+  it("doesn't bring back a deleted summary when a photo loses the logo", async () => {
+    await savePhoto(store, {
+      photoId: "p1",
+      s3Key: "photos/p1.jpg",
+      detections: [detection("nike", 0)],
+    });
+    // the logo was emptied and deleted, say by a merge, while the photo
+    // still lists it
+    await store.applyPhotoChange(
+      change({
+        photo: {
+          photoId: "p1",
+          s3Key: "photos/p1.jpg",
+          detections: [detection("nike", 0)],
+          createdAt: "2024-01-01T00:00:00Z",
+          revision: 2,
+        },
+        expectedRevision: 1,
+        summaries: [{ slug: "nike", name: "nike", delta: -1 }],
+      }),
+    );
+    assert.equal(await store.deleteEmptyLogo("nike"), true);
+
+    await savePhoto(store, {
+      photoId: "p1",
+      s3Key: "photos/p1.jpg",
+      detections: [],
+    });
+
+    assert.equal(await store.getLogo("nike"), null);
+    assert.deepEqual(await store.listLogos(), []);
+  });
+});
+
+describe("file store paging by time", () => {
+  let dir: string;
+  let store: LogoIndexStore;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "logo-index-"));
+    store = createFileLogoIndexStore({
+      filePath: path.join(dir, "index.json"),
+    });
+    const taken = ["2020-01-01", "1965-05-05", "2024-06-01"];
+    for (const [i, takenAt] of taken.entries()) {
+      await savePhoto(store, {
+        photoId: `p${i}`,
+        s3Key: `photos/p${i}.jpg`,
+        detections: [detection("nike", 0), detection("nike", 1)],
+        metadata: { takenAt },
+      });
+    }
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function readAll(
+    list: (after?: string) => Promise<{
+      items: Array<Record<string, unknown>>;
+      lastKey: string | null;
+    }>,
+  ) {
+    const keys: string[] = [];
+    let after: string | undefined;
+    do {
+      const page = await list(after);
+      keys.push(...page.items.map((item) => String(item.SK)));
+      after = page.lastKey ?? undefined;
+    } while (after);
+    return keys;
+  }
+
+  it("pages photos oldest or newest first", async () => {
+    for (const [byTime, expected] of [
+      ["oldest", ["p1", "p0", "p2"]],
+      ["newest", ["p2", "p0", "p1"]],
+    ] as const) {
+      assert.deepEqual(
+        await readAll((after) =>
+          store.listPhotosPage({ limit: 2, after, byTime }),
+        ),
+        expected,
+      );
+    }
+  });
+
+  it("keeps each photo's mappings together", async () => {
+    assert.deepEqual(
+      await readAll((after) =>
+        store.listLogoMappingsPage("nike", {
+          limit: 1,
+          after,
+          byTime: "newest",
+        }),
+      ),
+      ["p2#0001", "p2#0000", "p0#0001", "p0#0000", "p1#0001", "p1#0000"],
+    );
+  });
+});
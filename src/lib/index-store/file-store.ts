@@ -0,0 +1,355 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  buildLogoAliasItem,
+  buildLogoMappingItem,
+  buildLogoRepresentativeFields,
+  buildPhotoItem,
+  INGEST_FAILURE_PARTITION_KEY,
+  LOGO_ALIAS_PARTITION_KEY,
+  LOGO_PARTITION_KEY,
+  LOGO_REPRESENTATIVE_FIELDS,
+  type LogoRepresentative,
+  logoMappingItemKey,
+  logoMappingPartitionKey,
+  PHOTO_PARTITION_KEY,
+  SCHEMA_VERSION,
+} from "../schema";
+import { PhotoRevisionConflictError } from "./errors";
+import type {
+  IndexItem,
+  LogoIndexStore,
+  PartitionPage,
+  PartitionPageRequest,
+} from "./types";
+
+export const DEFAULT_INDEX_FILE = ".data/logo-index.json";
+
+export type FileStoreOptions = {
+  filePath?: string;
+};
+
+type IndexFile = {
+  items: IndexItem[];
+};
+
+function itemKey(item: IndexItem): string {
+  return `${String(item.PK)}|${String(item.SK)}`;
+}
+
+function withRepresentative(
+  summary: IndexItem,
+  representative: LogoRepresentative | null,
+): IndexItem {
+  const updated = { ...summary };
+  for (const field of LOGO_REPRESENTATIVE_FIELDS) {
+    delete updated[field];
+  }
+
+  if (!representative) {
+    return updated;
+  }
+
+  const fields = buildLogoRepresentativeFields(representative);
+  for (const field of LOGO_REPRESENTATIVE_FIELDS) {
+    if (fields[field] !== undefined) {
+      updated[field] = fields[field];
+    }
+  }
+
+  return updated;
+}
+
+// keeps the whole index in one json file using the same PK/SK item shapes
+// as dynamo, so the repository mapping works unchanged on either backend
+export function createFileLogoIndexStore(
+  options: FileStoreOptions = {},
+): LogoIndexStore {
+  const filePath = path.resolve(
+    options.filePath ?? process.env.LOGO_INDEX_FILE ?? DEFAULT_INDEX_FILE,
+  );
+
+  // serialise read-modify-write cycles so concurrent writers in the same
+  // process don't clobber each other
+  let pending: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<Map<string, IndexItem>> {
+    try {
+      const raw = await readFile(filePath, "utf8");
+      const parsed = JSON.parse(raw) as IndexFile;
+      return new Map(
+        (parsed.items ?? []).map((item) => [itemKey(item), item] as const),
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+
+      throw error;
+    }
+  }
+
+  async function save(items: Map<string, IndexItem>) {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    const contents: IndexFile = { items: [...items.values()] };
+    await writeFile(tempPath, JSON.stringify(contents, null, 2));
+    await rename(tempPath, filePath);
+  }
+
+  function mutate(update: (items: Map<string, IndexItem>) => void) {
+    const next = pending.then(async () => {
+      const items = await load();
+      update(items);
+      await save(items);
+    });
+    pending = next.catch(() => undefined);
+    return next;
+  }
+
+  // sorted by code unit like dynamo's binary comparison, so cursors mean
+  // the same thing on both backends
+  async function partition(partitionKey: string): Promise<IndexItem[]> {
+    await pending;
+    const items = await load();
+    return [...items.values()]
+      .filter((item) => item.PK === partitionKey)
+      .sort((a, b) => (String(a.SK) < String(b.SK) ? -1 : 1));
+  }
+
+  async function partitionPage(
+    partitionKey: string,
+    request: PartitionPageRequest,
+  ): Promise<PartitionPage> {
+    const { after, byTime } = request;
+    const field = byTime ? "timeKey" : "SK";
+    const newest = byTime === "newest";
+    const ordered = (await partition(partitionKey))
+      .filter((item) => typeof item[field] === "string")
+      .sort((a, b) => (String(a[field]) < String(b[field]) ? -1 : 1));
+    const remaining = (newest ? ordered.reverse() : ordered).filter(
+      (item) =>
+        after === undefined ||
+        (newest ? String(item[field]) < after : String(item[field]) > after),
+    );
+    const items = remaining.slice(0, request.limit);
+
+    return {
+      items,
+      lastKey:
+        remaining.length > items.length ? String(items.at(-1)?.[field]) : null,
+    };
+  }
+
+  return {
+    async getPhoto(photoId) {
+      await pending;
+      const items = await load();
+      return (
+        items.get(itemKey({ PK: PHOTO_PARTITION_KEY, SK: photoId })) ?? null
+      );
+    },
+
+    async applyPhotoChange(change) {
+      // the whole change lands in a single file write, so it is all or nothing
+      await mutate((items) => {
+        const photoKey = itemKey({
+          PK: PHOTO_PARTITION_KEY,
+          SK: change.photoId,
+        });
+        const stored = items.get(photoKey);
+        const storedRevision = stored ? Number(stored.revision ?? 0) : null;
+
+        if (storedRevision !== change.expectedRevision) {
+          throw new PhotoRevisionConflictError(change.photoId);
+        }
+
+        if (change.photo) {
+          items.set(photoKey, buildPhotoItem(change.photo));
+        } else {
+          items.delete(photoKey);
+        }
+
+        for (const mapping of change.deleteMappings) {
+          items.delete(itemKey(logoMappingItemKey(mapping)));
+        }
+
+        for (const mapping of change.putMappings) {
+          const item = buildLogoMappingItem(mapping);
+          items.set(itemKey(item), item);
+        }
+
+        for (const summary of change.summaries) {
+          const key = itemKey({ PK: LOGO_PARTITION_KEY, SK: summary.slug });
+          const current = items.get(key);
+          // a loss on a summary that has been deleted or merged away would
+          // bring it back with a count of -1
+          if (!current && summary.delta < 0) {
+            continue;
+          }
+
+          const existing: IndexItem = current ?? {
+            PK: LOGO_PARTITION_KEY,
+            SK: summary.slug,
+          };
+
+          items.set(key, {
+            ...existing,
+            schemaVersion: SCHEMA_VERSION,
+            displayName: existing.displayName ?? summary.name,
+            totalPhotos: Number(existing.totalPhotos ?? 0) + summary.delta,
+          });
+        }
+      });
+    },
+
+    async offerLogoRepresentative(slug, representative) {
+      await mutate((items) => {
+        const key = itemKey({ PK: LOGO_PARTITION_KEY, SK: slug });
+        const existing = items.get(key);
+        if (
+          !existing ||
+          Number(existing.topConfidence ?? -1) >= representative.confidence
+        ) {
+          return;
+        }
+
+        items.set(key, withRepresentative(existing, representative));
+      });
+    },
+
+    async setLogoRepresentative(slug, representative) {
+      await mutate((items) => {
+        const key = itemKey({ PK: LOGO_PARTITION_KEY, SK: slug });
+        const existing = items.get(key);
+        if (existing) {
+          items.set(key, withRepresentative(existing, representative));
+        }
+      });
+    },
+
+    async recordIngestFailure(failure) {
+      await mutate((items) => {
+        const key = itemKey({
+          PK: INGEST_FAILURE_PARTITION_KEY,
+          SK: failure.key,
+        });
+        const existing = items.get(key);
+
+        items.set(key, {
+          PK: INGEST_FAILURE_PARTITION_KEY,
+          SK: failure.key,
+          schemaVersion: SCHEMA_VERSION,
+          errorName: failure.errorName,
+          message: failure.message,
+          firstFailedAt: existing?.firstFailedAt ?? failure.failedAt,
+          lastFailedAt: failure.failedAt,
+          attempts: Number(existing?.attempts ?? 0) + 1,
+        });
+      });
+    },
+
+    async clearIngestFailure(key) {
+      await mutate((items) => {
+        items.delete(itemKey({ PK: INGEST_FAILURE_PARTITION_KEY, SK: key }));
+      });
+    },
+
+    async listIngestFailures() {
+      return partition(INGEST_FAILURE_PARTITION_KEY);
+    },
+
+    async putLogoAlias(alias) {
+      await mutate((items) => {
+        const item = buildLogoAliasItem(alias);
+        items.set(itemKey(item), item);
+      });
+    },
+
+    async deleteLogoAlias(alias) {
+      await mutate((items) => {
+        items.delete(itemKey({ PK: LOGO_ALIAS_PARTITION_KEY, SK: alias }));
+      });
+    },
+
+    async listLogoAliases() {
+      return partition(LOGO_ALIAS_PARTITION_KEY);
+    },
+
+    async listPhotos() {
+      return partition(PHOTO_PARTITION_KEY);
+    },
+
+    async listPhotosPage(request) {
+      return partitionPage(PHOTO_PARTITION_KEY, request);
+    },
+
+    async getLogo(slug) {
+      await pending;
+      const items = await load();
+      return items.get(itemKey({ PK: LOGO_PARTITION_KEY, SK: slug })) ?? null;
+    },
+
+    async renameLogo(slug, rename) {
+      await mutate((items) => {
+        const key = itemKey({ PK: LOGO_PARTITION_KEY, SK: slug });
+        const existing = items.get(key);
+        if (!existing) {
+          return;
+        }
+
+        const history = Array.isArray(existing.nameHistory)
+          ? existing.nameHistory
+          : [];
+        items.set(key, {
+          ...existing,
+          displayName: rename.displayName,
+          nameHistory: [
+            ...history,
+            { displayName: rename.previousName, until: rename.renamedAt },
+          ],
+        });
+      });
+    },
+
+    async deleteEmptyLogo(slug) {
+      let deleted = false;
+      await mutate((items) => {
+        const key = itemKey({ PK: LOGO_PARTITION_KEY, SK: slug });
+        const existing = items.get(key);
+        if (existing && Number(existing.totalPhotos ?? 0) <= 0) {
+          items.delete(key);
+          deleted = true;
+        }
+      });
+      return deleted;
+    },
+
+    async listLogos() {
+      return partition(LOGO_PARTITION_KEY);
+    },
+
+    async listLogosPage(request) {
+      return partitionPage(LOGO_PARTITION_KEY, request);
+    },
+
+    async listLogoMappings(slug) {
+      return partition(logoMappingPartitionKey(slug));
+    },
+
+    async listLogoMappingsPage(slug, request) {
+      return partitionPage(logoMappingPartitionKey(slug), request);
+    },
+
+    async getPhotos(photoIds) {
+      await pending;
+      const items = await load();
+      return photoIds
+        .map((photoId) =>
+          items.get(itemKey({ PK: PHOTO_PARTITION_KEY, SK: photoId })),
+        )
+        .filter((item): item is IndexItem => Boolean(item));
+    },
+  };
+}
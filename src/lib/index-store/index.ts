@@ -0,0 +1,58 @@
+import {
+  createDynamoLogoIndexStore,
+  type DynamoStoreOptions,
+} from "./dynamo-store";
+import { createFileLogoIndexStore, type FileStoreOptions } from "./file-store";
+import type { LogoIndexStore } from "./types";
+
+export {
+  batchWrite,
+  createDynamoLogoIndexStore,
+  type DynamoTables,
+  singleTable,
+  type WriteRequest,
+} from "./dynamo-store";
+export { PhotoRevisionConflictError } from "./errors";
+export { createFileLogoIndexStore, DEFAULT_INDEX_FILE } from "./file-store";
+export type * from "./types";
+
+export type LogoIndexBackend = "dynamo" | "file";
+
+export type LogoIndexStoreOptions = {
+  backend?: LogoIndexBackend;
+  dynamo?: DynamoStoreOptions;
+  file?: FileStoreOptions;
+};
+
+export function resolveLogoIndexBackend(): LogoIndexBackend {
+  const backend = process.env.LOGO_INDEX_BACKEND ?? "dynamo";
+
+  if (backend !== "dynamo" && backend !== "file") {
+    throw new Error(
+      `LOGO_INDEX_BACKEND must be "dynamo" or "file", got "${backend}".`,
+    );
+  }
+
+  return backend;
+}
+
+export function createLogoIndexStore(
+  options: LogoIndexStoreOptions = {},
+): LogoIndexStore {
+  const backend = options.backend ?? resolveLogoIndexBackend();
+
+  if (backend === "file") {
+    return createFileLogoIndexStore(options.file);
+  }
+
+  return createDynamoLogoIndexStore(options.dynamo);
+}
+
+let sharedStore: LogoIndexStore | undefined;
+
+// lazily built so a missing env var surfaces from the first request
+// instead of at import time
+export function getLogoIndexStore(): LogoIndexStore {
+  sharedStore ??= createLogoIndexStore();
+  return sharedStore;
+}
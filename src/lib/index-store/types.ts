@@ -0,0 +1,105 @@
+import type {
+  IndexItem,
+  IngestFailureInput,
+  LogoAliasInput,
+  LogoMappingInput,
+  LogoMappingKey,
+  LogoRepresentative,
+  PhotoInput,
+} from "../schema";
+
+export type {
+  IngestFailureInput,
+  IndexItem,
+  LogoAliasInput,
+  LogoMappingInput,
+  LogoMappingKey,
+  LogoRepresentative,
+  PhotoInput,
+};
+
+export type LogoSummaryDelta = {
+  slug: string;
+  name: string;
+  // change to totalPhotos: 1 when the photo gained the logo, -1 when it lost it
+  delta: number;
+};
+
+// everything a (re-)ingested photo touches, applied atomically so counters
+// never drift from the mappings they count
+export type PhotoChange = {
+  photoId: string;
+  // the photo item to write, or null to delete it
+  photo: PhotoInput | null;
+  // revision of the stored photo the change was computed from, null when
+  // the photo is new
+  expectedRevision: number | null;
+  putMappings: LogoMappingInput[];
+  deleteMappings: LogoMappingKey[];
+  summaries: LogoSummaryDelta[];
+};
+
+// a logo's new display name. the old one is kept in the summary's
+// nameHistory along with when it stopped being used
+export type LogoRename = {
+  displayName: string;
+  previousName: string;
+  renamedAt: string;
+};
+
+// a slice of one partition in sort key order, continuing after the sort key
+// `after`. lastKey is where the slice stopped, or null at the end of the
+// partition. with byTime the slice follows the items' timeKey instead, oldest
+// or newest first, and `after` and lastKey are timeKeys. that only works
+// for photos and logo mappings; see timeKey in schema.ts
+export type PartitionPageRequest = {
+  limit: number;
+  after?: string;
+  byTime?: "oldest" | "newest";
+};
+
+export type PartitionPage = {
+  items: IndexItem[];
+  lastKey: string | null;
+};
+
+// storage backend for the logo index. reads hand back raw items so the
+// repository keeps ownership of mapping them into records
+export interface LogoIndexStore {
+  getPhoto(photoId: string): Promise<IndexItem | null>;
+  applyPhotoChange(change: PhotoChange): Promise<void>;
+  // replaces the summary's representative detection only if this one has a
+  // higher confidence
+  offerLogoRepresentative(
+    slug: string,
+    representative: LogoRepresentative,
+  ): Promise<void>;
+  // unconditionally replaces (or with null, clears) the representative
+  setLogoRepresentative(
+    slug: string,
+    representative: LogoRepresentative | null,
+  ): Promise<void>;
+  // adds to the key's failure record, counting attempts across runs
+  recordIngestFailure(failure: IngestFailureInput): Promise<void>;
+  clearIngestFailure(key: string): Promise<void>;
+  listIngestFailures(): Promise<IndexItem[]>;
+  putLogoAlias(alias: LogoAliasInput): Promise<void>;
+  deleteLogoAlias(alias: string): Promise<void>;
+  listLogoAliases(): Promise<IndexItem[]>;
+  listPhotos(): Promise<IndexItem[]>;
+  listPhotosPage(request: PartitionPageRequest): Promise<PartitionPage>;
+  getLogo(slug: string): Promise<IndexItem | null>;
+  renameLogo(slug: string, rename: LogoRename): Promise<void>;
+  // deletes a summary no photo counts towards any more; returns false and
+  // leaves it alone otherwise
+  deleteEmptyLogo(slug: string): Promise<boolean>;
+  listLogos(): Promise<IndexItem[]>;
+  listLogosPage(request: PartitionPageRequest): Promise<PartitionPage>;
+  listLogoMappings(slug: string): Promise<IndexItem[]>;
+  listLogoMappingsPage(
+    slug: string,
+    request: PartitionPageRequest,
+  ): Promise<PartitionPage>;
+  // missing photos are left out, and the order is not preserved
+  getPhotos(photoIds: string[]): Promise<IndexItem[]>;
+}
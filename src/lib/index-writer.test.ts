@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildPhotoChange, type PhotoWrite } from "./index-writer";
+import type { IndexItem, LogoDetection } from "./schema";
+
+function detection(
+  slug: string,
+  detectionIndex: number,
+  confidence = 0.9,
+): LogoDetection {
+  return { name: slug, slug, confidence, detectionIndex };
+}
+
+function photo(detections: LogoDetection[]): PhotoWrite {
+  return { photoId: "p1", s3Key: "photos/p1.jpg", detections };
+}
+
+// what the store would hold after writing `change`
+function stored(write: PhotoWrite, previous: IndexItem | null = null) {
+  const change = buildPhotoChange(previous, write, "2024-01-01T00:00:00Z");
+  return { change, item: { ...change.photo, PK: "PHOTO", SK: "p1" } };
+}
+
+describe("buildPhotoChange", () => {
+  it("adds a mapping per detection and counts each logo once", () => {
+    const { change } = stored(
+      photo([detection("nike", 0), detection("nike", 1), detection("puma", 2)]),
+    );
+
+    assert.equal(change.expectedRevision, null);
+    assert.equal(change.photo?.revision, 1);
+    assert.deepEqual(
+      change.putMappings.map((m) => `${m.slug}#${m.detectionIndex}`),
+      ["nike#0", "nike#1", "puma#2"],
+    );
+    assert.deepEqual(change.deleteMappings, []);
+    assert.deepEqual(
+      change.summaries.map((s) => [s.slug, s.delta]),
+      [
+        ["nike", 1],
+        ["puma", 1],
+      ],
+    );
+  });
+
+  it("leaves counters alone when the same detections are written again", () => {
+    const first = stored(photo([detection("nike", 0), detection("puma", 1)]));
+    const { change } = stored(
+      photo([detection("nike", 0), detection("puma", 1)]),
+      first.item,
+    );
+
+    assert.equal(change.expectedRevision, 1);
+    assert.equal(change.photo?.createdAt, "2024-01-01T00:00:00Z");
+    assert.deepEqual(change.deleteMappings, []);
+    assert.deepEqual(change.summaries, []);
+  });
+
+  it("deletes stale mappings and only moves counts for gained or lost logos", () => {
+    const first = stored(
+      photo([detection("nike", 0), detection("nike", 1), detection("puma", 2)]),
+    );
+    const { change } = stored(
+      photo([detection("nike", 1), detection("adidas", 3)]),
+      first.item,
+    );
+
+    assert.deepEqual(
+      change.deleteMappings.map((m) => `${m.slug}#${m.detectionIndex}`),
+      ["nike#0", "puma#2"],
+    );
+    assert.deepEqual(
+      change.summaries.map((s) => [s.slug, s.delta]),
+      [
+        ["adidas", 1],
+        ["puma", -1],
+      ],
+    );
+  });
+
+  it("names a new summary after its most confident detection", () => {
+    const { change } = stored(
+      photo([
+        { ...detection("coca-cola", 0, 0.4), name: "Coke" },
+        { ...detection("coca-cola", 1, 0.8), name: "Coca-Cola" },
+      ]),
+    );
+
+    assert.equal(change.summaries[0].name, "Coca-Cola");
+  });
+
+  it("reads mappings from items written before slugs were stored", () => {
+    const legacy: IndexItem = {
+      PK: "PHOTO",
+      SK: "p1",
+      revision: 3,
+      detections: [{ name: "Nike", score: 0.7 }],
+    };
+    const { change } = stored(photo([]), legacy);
+
+    assert.equal(change.expectedRevision, 3);
+    assert.deepEqual(change.deleteMappings, [
+      { slug: "nike", photoId: "p1", detectionIndex: 0 },
+    ]);
+    assert.deepEqual(
+      change.summaries.map((s) => [s.slug, s.delta]),
+      [["nike", -1]],
+    );
+  });
+});
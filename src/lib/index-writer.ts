@@ -0,0 +1,528 @@
+import { normalizeLogoName } from "./dynamo";
+import {
+  type LogoIndexStore,
+  type LogoMappingKey,
+  type LogoSummaryDelta,
+  type PhotoChange,
+  PhotoRevisionConflictError,
+} from "./index-store";
+import { photoTimeKey } from "./photo-filter";
+import {
+  type DetectionReview,
+  type IndexItem,
+  type LogoDetection,
+  type LogoRepresentative,
+  type PhotoMetadata,
+  readPhotoDetections,
+  type SuppressedDetection,
+  type SuppressionReason,
+} from "./schema";
+
+const MAX_CONFLICT_RETRIES = 5;
+
+export type PhotoWrite = {
+  photoId: string;
+  s3Key: string;
+  publicUrl?: string;
+  detections: LogoDetection[];
+  suppressedDetections?: SuppressedDetection[];
+  imageSize?: { width: number; height: number };
+  thumbnailKey?: string;
+  thumbnailUrl?: string;
+  perceptualHash?: string;
+  duplicateOf?: string;
+  metadata?: PhotoMetadata;
+  sourceETag?: string;
+  sourceLastModified?: string;
+};
+
+export type SavePhotoResult = {
+  addedSlugs: string[];
+  removedSlugs: string[];
+  staleMappings: number;
+};
+
+type StoredMapping = LogoMappingKey & {
+  confidence: number;
+};
+
+function storedMappings(
+  photoId: string,
+  previous: IndexItem | null,
+): StoredMapping[] {
+  if (!previous) {
+    return [];
+  }
+
+  return readPhotoDetections(previous).flatMap((detection, index) => {
+    const slug =
+      typeof detection.slug === "string"
+        ? detection.slug
+        : normalizeLogoName(String(detection.name ?? ""));
+    if (!slug) {
+      return [];
+    }
+
+    const detectionIndex =
+      typeof detection.detectionIndex === "number"
+        ? detection.detectionIndex
+        : index;
+
+    const confidence = Number(detection.confidence ?? detection.score ?? 0);
+
+    return [{ slug, photoId, detectionIndex, confidence }];
+  });
+}
+
+function bestBySlug<T extends { slug: string; confidence: number }>(
+  detections: T[],
+): Map<string, T> {
+  const best = new Map<string, T>();
+  for (const detection of detections) {
+    const current = best.get(detection.slug);
+    if (!current || detection.confidence > current.confidence) {
+      best.set(detection.slug, detection);
+    }
+  }
+  return best;
+}
+
+function mappingId(mapping: LogoMappingKey): string {
+  return `${mapping.slug}#${mapping.detectionIndex}`;
+}
+
+// works out what has to change for the stored photo to match `photo`:
+// stale mappings are deleted and totalPhotos only moves for slugs the photo
+// gained or lost, so re-ingesting the same image is a no-op for counters
+export function buildPhotoChange(
+  previous: IndexItem | null,
+  photo: PhotoWrite,
+  now = new Date().toISOString(),
+): PhotoChange {
+  const previousMappings = storedMappings(photo.photoId, previous);
+  const nextMappingIds = new Set(
+    photo.detections.map((detection) =>
+      mappingId({ ...detection, photoId: photo.photoId }),
+    ),
+  );
+
+  const previousSlugs = new Set(previousMappings.map((m) => m.slug));
+  const nextSlugs = bestBySlug(photo.detections);
+
+  const summaries: LogoSummaryDelta[] = [];
+  for (const [slug, detection] of nextSlugs) {
+    if (!previousSlugs.has(slug)) {
+      summaries.push({ slug, name: detection.name, delta: 1 });
+    }
+  }
+
+  for (const slug of previousSlugs) {
+    if (!nextSlugs.has(slug)) {
+      summaries.push({ slug, name: slug, delta: -1 });
+    }
+  }
+
+  const previousRevision = previous ? Number(previous.revision ?? 0) : null;
+  const createdAt =
+    typeof previous?.createdAt === "string" ? previous.createdAt : now;
+  const timeKey = photoTimeKey({
+    takenAt: photo.metadata?.takenAt,
+    createdAt,
+  });
+
+  return {
+    photoId: photo.photoId,
+    photo: {
+      photoId: photo.photoId,
+      s3Key: photo.s3Key,
+      publicUrl: photo.publicUrl,
+      detections: photo.detections,
+      suppressedDetections: photo.suppressedDetections,
+      imageSize: photo.imageSize,
+      thumbnailKey: photo.thumbnailKey,
+      thumbnailUrl: photo.thumbnailUrl,
+      perceptualHash: photo.perceptualHash,
+      duplicateOf: photo.duplicateOf,
+      metadata: photo.metadata,
+      sourceETag: photo.sourceETag,
+      sourceLastModified: photo.sourceLastModified,
+      createdAt,
+      updatedAt: previous ? now : undefined,
+      revision: (previousRevision ?? 0) + 1,
+    },
+    expectedRevision: previousRevision,
+    putMappings: photo.detections.map((detection) => ({
+      slug: detection.slug,
+      photoId: photo.photoId,
+      confidence: detection.confidence,
+      detectionIndex: detection.detectionIndex,
+      photoTimeKey: timeKey,
+      s3Key: photo.s3Key,
+      publicUrl: photo.publicUrl,
+      boundingPoly: detection.boundingPoly,
+      cropKey: detection.cropKey,
+      cropUrl: detection.cropUrl,
+    })),
+    deleteMappings: previousMappings
+      .filter((mapping) => !nextMappingIds.has(mappingId(mapping)))
+      .map(({ slug, photoId, detectionIndex }) => ({
+        slug,
+        photoId,
+        detectionIndex,
+      })),
+    summaries,
+  };
+}
+
+// deletes the photo with its mappings and takes it out of every logo count
+export function buildPhotoRemoval(previous: IndexItem): PhotoChange {
+  const photoId = String(previous.SK);
+  const previousMappings = storedMappings(photoId, previous);
+  const previousSlugs = new Set(previousMappings.map((m) => m.slug));
+
+  return {
+    photoId,
+    photo: null,
+    expectedRevision: Number(previous.revision ?? 0),
+    putMappings: [],
+    deleteMappings: previousMappings.map(
+      ({ slug, detectionIndex }): LogoMappingKey => ({
+        slug,
+        photoId,
+        detectionIndex,
+      }),
+    ),
+    summaries: [...previousSlugs].map((slug) => ({
+      slug,
+      name: slug,
+      delta: -1,
+    })),
+  };
+}
+
+function mappingRepresentative(item: IndexItem): LogoRepresentative | null {
+  const confidence = Number(item.confidence);
+  const photoId =
+    typeof item.photoId === "string"
+      ? item.photoId
+      : String(item.SK ?? "").split("#")[0];
+  if (!photoId || !Number.isFinite(confidence)) {
+    return null;
+  }
+
+  return {
+    photoId,
+    confidence,
+    s3Key: typeof item.s3Key === "string" ? item.s3Key : undefined,
+    publicUrl: typeof item.publicUrl === "string" ? item.publicUrl : undefined,
+    boundingPoly: Array.isArray(item.boundingPoly)
+      ? (item.boundingPoly as Array<{ x: number; y: number }>)
+      : undefined,
+    cropKey: typeof item.cropKey === "string" ? item.cropKey : undefined,
+    cropUrl: typeof item.cropUrl === "string" ? item.cropUrl : undefined,
+  };
+}
+
+// picks the best remaining mapping for a logo after its previous
+// representative may have gone away
+export async function recomputeLogoRepresentative(
+  store: LogoIndexStore,
+  slug: string,
+) {
+  const mappings = await store.listLogoMappings(slug);
+  const best = mappings
+    .map(mappingRepresentative)
+    .filter((candidate): candidate is LogoRepresentative => Boolean(candidate))
+    .reduce<LogoRepresentative | null>(
+      (current, candidate) =>
+        !current || candidate.confidence > current.confidence
+          ? candidate
+          : current,
+      null,
+    );
+
+  await store.setLogoRepresentative(slug, best);
+}
+
+// keeps each touched summary pointing at its highest confidence detection.
+// raising is a cheap conditional write; only logos whose detection on this
+// photo got worse or disappeared need their mappings rescanned
+async function updateLogoRepresentatives(
+  store: LogoIndexStore,
+  photoId: string,
+  previous: IndexItem | null,
+  photo: PhotoWrite | null,
+) {
+  const previousBest = bestBySlug(storedMappings(photoId, previous));
+  const nextBest = bestBySlug(photo?.detections ?? []);
+
+  for (const [slug, detection] of nextBest) {
+    const before = previousBest.get(slug);
+    if (before && detection.confidence < before.confidence) {
+      await recomputeLogoRepresentative(store, slug);
+      continue;
+    }
+
+    await store.offerLogoRepresentative(slug, {
+      photoId,
+      s3Key: photo?.s3Key,
+      publicUrl: photo?.publicUrl,
+      confidence: detection.confidence,
+      boundingPoly: detection.boundingPoly,
+      cropKey: detection.cropKey,
+      cropUrl: detection.cropUrl,
+    });
+  }
+
+  for (const slug of previousBest.keys()) {
+    if (!nextBest.has(slug)) {
+      await recomputeLogoRepresentative(store, slug);
+    }
+  }
+}
+
+function summariseChange(change: PhotoChange): SavePhotoResult {
+  return {
+    addedSlugs: change.summaries
+      .filter((summary) => summary.delta > 0)
+      .map((summary) => summary.slug),
+    removedSlugs: change.summaries
+      .filter((summary) => summary.delta < 0)
+      .map((summary) => summary.slug),
+    staleMappings: change.deleteMappings.length,
+  };
+}
+
+// reads the stored photo, builds a change against it and applies it,
+// starting over if another writer got to the photo first. `next` is called
+// again on every attempt so it always sees the latest stored photo;
+// returning undefined leaves the photo alone
+async function writeWithRetry(
+  store: LogoIndexStore,
+  photoId: string,
+  next: (previous: IndexItem | null) => PhotoWrite | null | undefined,
+): Promise<SavePhotoResult | null> {
+  for (let attempt = 1; ; attempt++) {
+    const previous = await store.getPhoto(photoId);
+    const photo = next(previous);
+    if (photo === undefined || (!previous && !photo)) {
+      return null;
+    }
+
+    const change = photo
+      ? buildPhotoChange(previous, photo)
+      : buildPhotoRemoval(previous as IndexItem);
+
+    try {
+      await store.applyPhotoChange(change);
+    } catch (error) {
+      if (
+        error instanceof PhotoRevisionConflictError &&
+        attempt < MAX_CONFLICT_RETRIES
+      ) {
+        continue;
+      }
+
+      throw error;
+    }
+
+    await updateLogoRepresentatives(store, photoId, previous, photo);
+
+    return summariseChange(change);
+  }
+}
+
+// re-ingesting the same source object keeps what reviewers decided: their
+// detections replace vision's at the same index, and ones they added are
+// carried over. a changed object starts over from vision, apart from manual
+// tags, which never came from vision
+function keepReviews(
+  previous: IndexItem | null,
+  photo: PhotoWrite,
+): PhotoWrite {
+  if (!previous) {
+    return photo;
+  }
+
+  const sameSource =
+    previous.sourceETag !== undefined &&
+    previous.sourceETag === photo.sourceETag;
+  const stored = storedPhotoWrite(previous);
+  const reviewed = new Map(
+    [...stored.detections, ...(stored.suppressedDetections ?? [])]
+      .filter(
+        (detection) =>
+          detection.source === "manual" || (sameSource && detection.review),
+      )
+      .map((detection) => [detection.detectionIndex, detection] as const),
+  );
+  if (reviewed.size === 0) {
+    return photo;
+  }
+
+  const unreviewed = <T extends LogoDetection>(detections: T[]) =>
+    detections.filter((detection) => !reviewed.has(detection.detectionIndex));
+  const kept = [...reviewed.values()];
+  const byIndex = (a: LogoDetection, b: LogoDetection) =>
+    a.detectionIndex - b.detectionIndex;
+
+  return {
+    ...photo,
+    detections: [
+      ...unreviewed(photo.detections),
+      ...kept.filter((detection) => !("reason" in detection)),
+    ].sort(byIndex),
+    suppressedDetections: [
+      ...unreviewed(photo.suppressedDetections ?? []),
+      ...kept.filter(
+        (detection): detection is SuppressedDetection => "reason" in detection,
+      ),
+    ].sort(byIndex),
+  };
+}
+
+// duplicate groups are found by a separate report run, so re-ingesting the
+// same image keeps the group it was put in. a changed image has to be
+// grouped again
+function keepDuplicateGroup(
+  previous: IndexItem | null,
+  photo: PhotoWrite,
+): PhotoWrite {
+  if (
+    photo.duplicateOf !== undefined ||
+    typeof previous?.duplicateOf !== "string" ||
+    previous.perceptualHash !== photo.perceptualHash
+  ) {
+    return photo;
+  }
+
+  return { ...photo, duplicateOf: previous.duplicateOf };
+}
+
+export async function savePhoto(
+  store: LogoIndexStore,
+  photo: PhotoWrite,
+): Promise<SavePhotoResult> {
+  return (await writeWithRetry(store, photo.photoId, (previous) =>
+    keepReviews(previous, keepDuplicateGroup(previous, photo)),
+  )) as SavePhotoResult;
+}
+
+// returns null when there was no such photo to remove
+export async function removePhoto(
+  store: LogoIndexStore,
+  photoId: string,
+): Promise<SavePhotoResult | null> {
+  return writeWithRetry(store, photoId, () => null);
+}
+
+function readStoredDetection(
+  detection: IndexItem,
+  index: number,
+): LogoDetection | null {
+  const name = String(detection.name ?? "");
+  const slug =
+    typeof detection.slug === "string"
+      ? detection.slug
+      : normalizeLogoName(name);
+  if (!slug) {
+    return null;
+  }
+
+  const read: LogoDetection = {
+    name,
+    slug,
+    confidence: Number(detection.confidence ?? detection.score ?? 0),
+    detectionIndex:
+      typeof detection.detectionIndex === "number"
+        ? detection.detectionIndex
+        : index,
+    boundingPoly: Array.isArray(detection.boundingPoly)
+      ? (detection.boundingPoly as Array<{ x: number; y: number }>)
+      : undefined,
+  };
+
+  if (detection.source === "review" || detection.source === "manual") {
+    read.source = detection.source;
+  }
+
+  if (detection.review && typeof detection.review === "object") {
+    read.review = detection.review as DetectionReview;
+  }
+
+  if (typeof detection.cropKey === "string") {
+    read.cropKey = detection.cropKey;
+  }
+
+  if (typeof detection.cropUrl === "string") {
+    read.cropUrl = detection.cropUrl;
+  }
+
+  return read;
+}
+
+// the stored photo as a write, for changes that start from what's there
+export function storedPhotoWrite(item: IndexItem): PhotoWrite {
+  const photoId = String(item.SK);
+  const detections = readPhotoDetections(item)
+    .map(readStoredDetection)
+    .filter((detection): detection is LogoDetection => Boolean(detection));
+  const suppressedDetections = (
+    Array.isArray(item.suppressedDetections)
+      ? (item.suppressedDetections as IndexItem[])
+      : []
+  ).flatMap((stored, index): SuppressedDetection[] => {
+    const detection = readStoredDetection(stored, index);
+    return detection
+      ? [{ ...detection, reason: stored.reason as SuppressionReason }]
+      : [];
+  });
+  const imageSize = item.imageSize as PhotoWrite["imageSize"];
+
+  return {
+    photoId,
+    s3Key: String(item.s3Key ?? ""),
+    publicUrl: typeof item.publicUrl === "string" ? item.publicUrl : undefined,
+    detections,
+    suppressedDetections:
+      suppressedDetections.length > 0 ? suppressedDetections : undefined,
+    imageSize,
+    thumbnailKey:
+      typeof item.thumbnailKey === "string" ? item.thumbnailKey : undefined,
+    thumbnailUrl:
+      typeof item.thumbnailUrl === "string" ? item.thumbnailUrl : undefined,
+    perceptualHash:
+      typeof item.perceptualHash === "string" ? item.perceptualHash : undefined,
+    duplicateOf:
+      typeof item.duplicateOf === "string" ? item.duplicateOf : undefined,
+    metadata:
+      item.metadata && typeof item.metadata === "object"
+        ? (item.metadata as PhotoMetadata)
+        : undefined,
+    sourceETag:
+      typeof item.sourceETag === "string" ? item.sourceETag : undefined,
+    sourceLastModified:
+      typeof item.sourceLastModified === "string"
+        ? item.sourceLastModified
+        : undefined,
+  };
+}
+
+// rewrites a stored photo in place, with the same diffing and conflict
+// retries as savePhoto. returns null when the photo doesn't exist or
+// `update` hands back the photo it was given
+export async function updateStoredPhoto(
+  store: LogoIndexStore,
+  photoId: string,
+  update: (photo: PhotoWrite) => PhotoWrite,
+): Promise<SavePhotoResult | null> {
+  return writeWithRetry(store, photoId, (previous) => {
+    if (!previous) {
+      return undefined;
+    }
+
+    const photo = storedPhotoWrite(previous);
+    const updated = update(photo);
+    return updated === photo ? undefined : updated;
+  });
+}
@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import { createFileLogoIndexStore, type LogoIndexStore } from "./index-store";
+import { savePhoto, storedPhotoWrite } from "./index-writer";
+import {
+  InvalidLogoChangeError,
+  LogoNotFoundError,
+  mergeLogos,
+  renameLogo,
+} from "./logo-admin";
+import type { LogoDetection } from "./schema";
+
+function detection(name: string, detectionIndex: number): LogoDetection {
+  return {
+    name,
+    slug: name.toLowerCase(),
+    confidence: 0.9,
+    detectionIndex,
+  };
+}
+
+let dir: string;
+let files = 0;
+let store: LogoIndexStore;
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "logo-admin-"));
+});
+
+beforeEach(async () => {
+  files += 1;
+  store = createFileLogoIndexStore({
+    filePath: path.join(dir, `index-${files}.json`),
+  });
+
+  await savePhoto(store, {
+    photoId: "p1",
+    s3Key: "photos/p1.jpg",
+    detections: [detection("Coke", 0)],
+  });
+  await savePhoto(store, {
+    photoId: "p2",
+    s3Key: "photos/p2.jpg",
+    detections: [detection("Coke", 0), detection("Cola", 1)],
+  });
+  await savePhoto(store, {
+    photoId: "p3",
+    s3Key: "photos/p3.jpg",
+    detections: [detection("Cola", 0)],
+    suppressedDetections: [{ ...detection("Coke", 1), reason: "confidence" }],
+  });
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function aliasTargets() {
+  return Object.fromEntries(
+    (await store.listLogoAliases()).map((alias) => [alias.SK, alias.slug]),
+  );
+}
+
+describe("mergeLogos", () => {
+  it("moves every photo over and leaves the old name as an alias", async () => {
+    const result = await mergeLogos(store, "coke", "cola");
+
+    assert.equal(result.photos, 3);
+    assert.equal(await store.getLogo("coke"), null);
+    assert.equal((await store.getLogo("cola"))?.totalPhotos, 3);
+    assert.deepEqual(await store.listLogoMappings("coke"), []);
+    assert.deepEqual(
+      (await store.listLogoMappings("cola")).map((item) => item.SK),
+      ["p1#0000", "p2#0000", "p2#0001", "p3#0000"],
+    );
+    assert.deepEqual(await aliasTargets(), { coke: "cola" });
+  });
+
+  it("relabels suppressed detections and keeps vision's name", async () => {
+    await mergeLogos(store, "coke", "cola");
+    const p3 = await store.getPhoto("p3");
+    assert.ok(p3);
+
+    assert.deepEqual(
+      storedPhotoWrite(p3).suppressedDetections?.map((d) => [d.name, d.slug]),
+      [["Coke", "cola"]],
+    );
+  });
+
+  it("repoints aliases and drops one that would point at itself", async () => {
+    await store.putLogoAlias({
+      alias: "cocacola",
+      displayName: "CocaCola",
+      slug: "coke",
+    });
+    await store.putLogoAlias({
+      alias: "cola",
+      displayName: "Cola",
+      slug: "coke",
+    });
+
+    const result = await mergeLogos(store, "coke", "cola");
+
+    assert.equal(result.aliases, 2);
+    assert.deepEqual(await aliasTargets(), {
+      coke: "cola",
+      cocacola: "cola",
+    });
+  });
+
+  it("changes nothing on a dry run", async () => {
+    const result = await mergeLogos(store, "coke", "cola", { dryRun: true });
+
+    assert.equal(result.photos, 3);
+    assert.equal((await store.getLogo("coke"))?.totalPhotos, 2);
+    assert.deepEqual(await aliasTargets(), {});
+  });
+
+  it("refuses to merge a logo into itself or into nothing", async () => {
+    await assert.rejects(
+      mergeLogos(store, "Coke", "coke"),
+      InvalidLogoChangeError,
+    );
+    await assert.rejects(mergeLogos(store, "coke", "pepsi"), LogoNotFoundError);
+    await assert.rejects(mergeLogos(store, "pepsi", "cola"), LogoNotFoundError);
+  });
+});
+
+describe("renameLogo", () => {
+  it("keeps the slug and remembers the old name", async () => {
+    const result = await renameLogo(store, "coke", "Coca-Cola");
+    const logo = await store.getLogo("coke");
+
+    assert.deepEqual(result, {
+      slug: "coke",
+      displayName: "Coca-Cola",
+      previousName: "Coke",
+    });
+    assert.equal(logo?.displayName, "Coca-Cola");
+    assert.deepEqual(
+      (logo?.nameHistory as Array<{ displayName: string }>).map(
+        (entry) => entry.displayName,
+      ),
+      ["Coke"],
+    );
+  });
+
+  it("keeps an old name that reads differently as an alias", async () => {
+    await renameLogo(store, "coke", "Coca-Cola");
+    await renameLogo(store, "coke", "Coke Classic");
+
+    assert.deepEqual(await aliasTargets(), { "coca-cola": "coke" });
+  });
+
+  it("rejects empty names and unknown logos", async () => {
+    await assert.rejects(
+      renameLogo(store, "coke", "  "),
+      InvalidLogoChangeError,
+    );
+    await assert.rejects(
+      renameLogo(store, "pepsi", "Pepsi"),
+      LogoNotFoundError,
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import type { LogoIndexStore } from "./index-store";
+import { storedPhotoWrite, updateStoredPhoto } from "./index-writer";
+import { normalizeLogoName } from "./logo-names";
+import type { LogoDetection } from "./schema";
+
+export class LogoNotFoundError extends Error {
+  constructor(slug: string) {
+    super(`There is no logo "${slug}".`);
+    this.name = "LogoNotFoundError";
+  }
+}
+
+export class InvalidLogoChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidLogoChangeError";
+  }
+}
+
+export type MergeLogosResult = {
+  from: string;
+  into: string;
+  // photos whose detections, suppressed ones included, were moved over
+  photos: number;
+  // aliases that pointed at `from`. they now point at `into`, apart from
+  // one spelled like `into`, which is removed
+  aliases: number;
+  dryRun: boolean;
+};
+
+export type RenameLogoResult = {
+  slug: string;
+  displayName: string;
+  previousName: string;
+};
+
+function displayNameOf(item: Record<string, unknown>, slug: string): string {
+  return typeof item.displayName === "string" ? item.displayName : slug;
+}
+
+function uniquePhotoIds(mappings: Array<Record<string, unknown>>): string[] {
+  const ids = mappings.map((item) =>
+    typeof item.photoId === "string"
+      ? item.photoId
+      : String(item.SK ?? "").split("#")[0],
+  );
+  return [...new Set(ids.filter(Boolean))];
+}
+
+// the same array when no detection has the slug
+function relabel<T extends LogoDetection>(
+  detections: T[],
+  from: string,
+  into: string,
+): T[] {
+  return detections.some((detection) => detection.slug === from)
+    ? detections.map((detection) =>
+        detection.slug === from ? { ...detection, slug: into } : detection,
+      )
+    : detections;
+}
+
+// folds one logo into another. every photo detection of `from` is relabelled
+// `into` through the index writer, so mappings, counts and representatives
+// move one photo transaction at a time and a failed merge can simply be
+// run again. suppressed detections are relabelled too, so re-applying the
+// rules can't bring `from` back; finding them reads every photo. `from`
+// becomes an alias of `into` first, so new ingests that detect it already
+// land on `into`
+export async function mergeLogos(
+  store: LogoIndexStore,
+  fromName: string,
+  intoName: string,
+  options: { dryRun?: boolean } = {},
+): Promise<MergeLogosResult> {
+  const from = normalizeLogoName(fromName);
+  const into = normalizeLogoName(intoName);
+  const dryRun = options.dryRun ?? false;
+
+  if (!from || !into || from === into) {
+    throw new InvalidLogoChangeError(
+      `Can't merge "${fromName}" into "${intoName}".`,
+    );
+  }
+
+  const [fromLogo, intoLogo, aliases] = await Promise.all([
+    store.getLogo(from),
+    store.getLogo(into),
+    store.listLogoAliases(),
+  ]);
+
+  if (!intoLogo) {
+    throw new LogoNotFoundError(into);
+  }
+
+  const suppressedIds = (await store.listPhotos())
+    .map(storedPhotoWrite)
+    .filter((photo) =>
+      photo.suppressedDetections?.some((detection) => detection.slug === from),
+    )
+    .map((photo) => photo.photoId);
+  const photoIds = [
+    ...new Set([
+      ...uniquePhotoIds(await store.listLogoMappings(from)),
+      ...suppressedIds,
+    ]),
+  ];
+  if (!fromLogo && photoIds.length === 0) {
+    throw new LogoNotFoundError(from);
+  }
+
+  const pointingAtFrom = aliases.filter((alias) => alias.slug === from);
+  // an alias spelled like `into` itself would now point at itself
+  const repointed = pointingAtFrom.filter((alias) => alias.SK !== into);
+  const result: MergeLogosResult = {
+    from,
+    into,
+    photos: photoIds.length,
+    aliases: pointingAtFrom.length,
+    dryRun,
+  };
+
+  if (dryRun) {
+    return result;
+  }
+
+  await store.putLogoAlias({
+    alias: from,
+    displayName: fromLogo ? displayNameOf(fromLogo, from) : from,
+    slug: into,
+  });
+  for (const alias of repointed) {
+    await store.putLogoAlias({
+      alias: String(alias.SK),
+      displayName: displayNameOf(alias, String(alias.SK)),
+      slug: into,
+    });
+  }
+  if (repointed.length < pointingAtFrom.length) {
+    await store.deleteLogoAlias(into);
+  }
+
+  // the detection's own name is what vision said, so it stays as history
+  for (const photoId of photoIds) {
+    await updateStoredPhoto(store, photoId, (photo) => {
+      const detections = relabel(photo.detections, from, into);
+      const suppressedDetections =
+        photo.suppressedDetections &&
+        relabel(photo.suppressedDetections, from, into);
+
+      return detections === photo.detections &&
+        suppressedDetections === photo.suppressedDetections
+        ? photo
+        : { ...photo, detections, suppressedDetections };
+    });
+  }
+
+  await store.deleteEmptyLogo(from);
+
+  return result;
+}
+
+// changes how a logo is shown without touching its slug, so photo mappings
+// and links keep working. the old name is kept in the summary's history
+// and, when it normalises to something else, as an alias
+export async function renameLogo(
+  store: LogoIndexStore,
+  slugName: string,
+  displayName: string,
+): Promise<RenameLogoResult> {
+  const slug = normalizeLogoName(slugName);
+  const name = displayName.trim();
+
+  if (!name) {
+    throw new InvalidLogoChangeError("A logo's name can't be empty.");
+  }
+
+  const logo = await store.getLogo(slug);
+  if (!logo) {
+    throw new LogoNotFoundError(slug);
+  }
+
+  const previousName = displayNameOf(logo, slug);
+  if (previousName === name) {
+    return { slug, displayName: name, previousName };
+  }
+
+  await store.renameLogo(slug, {
+    displayName: name,
+    previousName,
+    renamedAt: new Date().toISOString(),
+  });
+
+  const previousSlug = normalizeLogoName(previousName);
+  if (
+    previousSlug &&
+    previousSlug !== slug &&
+    !(await store.getLogo(previousSlug))
+  ) {
+    await store.putLogoAlias({
+      alias: previousSlug,
+      displayName: previousName,
+      slug,
+    });
+  }
+
+  return { slug, displayName: name, previousName };
+}
@@ -0,0 +1,9 @@
+// kept apart from ./dynamo so client components can use it without pulling
+// in the aws sdk
+export function normalizeLogoName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
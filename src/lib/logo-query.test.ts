@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  evaluateLogoQuery,
+  formatLogoQuery,
+  InvalidLogoQueryError,
+  type LogoQuery,
+  logoQuerySlugs,
+  parseLogoQuery,
+  positiveLogoQuerySlugs,
+} from "./logo-query";
+
+const logo = (slug: string): LogoQuery => ({ type: "logo", slug });
+
+describe("parseLogoQuery", () => {
+  it("binds NOT tighter than AND, and AND tighter than OR", () => {
+    assert.deepEqual(parseLogoQuery("nike OR adidas AND NOT puma"), {
+      type: "or",
+      terms: [
+        logo("nike"),
+        {
+          type: "and",
+          terms: [logo("adidas"), { type: "not", term: logo("puma") }],
+        },
+      ],
+    });
+  });
+
+  it("ANDs terms written side by side and reads -x as NOT x", () => {
+    assert.deepEqual(parseLogoQuery("nike adidas -puma"), {
+      type: "and",
+      terms: [
+        logo("nike"),
+        logo("adidas"),
+        { type: "not", term: logo("puma") },
+      ],
+    });
+  });
+
+  it("groups with parentheses", () => {
+    assert.equal(
+      formatLogoQuery(parseLogoQuery("(nike or adidas) -puma")),
+      "(nike OR adidas) AND NOT puma",
+    );
+  });
+
+  it("normalises names to slugs", () => {
+    assert.deepEqual(parseLogoQuery("Coca_Cola"), logo("coca-cola"));
+  });
+
+  it("rejects broken queries", () => {
+    for (const input of ["", "nike AND", "(nike", "nike )", "OR nike", "!!"]) {
+      assert.throws(() => parseLogoQuery(input), InvalidLogoQueryError, input);
+    }
+  });
+
+  it("limits the number of logos", () => {
+    const many = Array.from({ length: 21 }, (_, i) => `logo${i}`).join(" ");
+    assert.throws(() => parseLogoQuery(many), /at most 20 logos/);
+  });
+});
+
+describe("formatLogoQuery", () => {
+  it("round-trips through parseLogoQuery", () => {
+    for (const input of [
+      "nike AND adidas AND NOT puma",
+      "(nike OR adidas) AND NOT puma",
+      "NOT (nike OR adidas)",
+      "NOT NOT nike",
+    ]) {
+      assert.equal(formatLogoQuery(parseLogoQuery(input)), input);
+    }
+  });
+});
+
+describe("logoQuerySlugs", () => {
+  it("lists every slug once, and positive ones apart", () => {
+    const query = parseLogoQuery("nike (adidas OR nike) -puma");
+    assert.deepEqual(logoQuerySlugs(query), ["nike", "adidas", "puma"]);
+    assert.deepEqual(positiveLogoQuerySlugs(query), ["nike", "adidas"]);
+  });
+});
+
+describe("evaluateLogoQuery", () => {
+  const photos: Record<string, string[]> = {
+    nike: ["1", "2", "3"],
+    adidas: ["2", "4"],
+    puma: ["3"],
+  };
+  const photoIdsFor = (slug: string) => new Set(photos[slug] ?? []);
+
+  async function evaluate(input: string) {
+    let loads = 0;
+    const matched = await evaluateLogoQuery(
+      parseLogoQuery(input),
+      photoIdsFor,
+      async () => {
+        loads += 1;
+        return new Set(["1", "2", "3", "4", "5"]);
+      },
+    );
+    return { ids: [...matched].sort(), loads };
+  }
+
+  it("narrows NOT by the positive terms beside it", async () => {
+    assert.deepEqual(await evaluate("nike -puma"), {
+      ids: ["1", "2"],
+      loads: 0,
+    });
+    assert.deepEqual(await evaluate("nike adidas"), { ids: ["2"], loads: 0 });
+  });
+
+  it("reads every photo for a NOT on its own, once", async () => {
+    assert.deepEqual(await evaluate("NOT nike AND NOT adidas"), {
+      ids: ["5"],
+      loads: 1,
+    });
+  });
+
+  it("unions OR terms", async () => {
+    assert.deepEqual((await evaluate("puma OR adidas")).ids, ["2", "3", "4"]);
+  });
+});
@@ -0,0 +1,339 @@
+import { normalizeLogoName } from "./logo-names";
+
+// a boolean expression over logo slugs, e.g. "nike AND adidas AND NOT puma"
+// or "nike adidas -puma". NOT binds tighter than AND, which binds tighter
+// than OR; terms written side by side are ANDed
+export type LogoQuery =
+  | { type: "logo"; slug: string }
+  | { type: "and"; terms: LogoQuery[] }
+  | { type: "or"; terms: LogoQuery[] }
+  | { type: "not"; term: LogoQuery };
+
+export class InvalidLogoQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidLogoQueryError";
+  }
+}
+
+type Token =
+  | { type: "and" | "or" | "not" | "(" | ")" }
+  | { type: "slug"; slug: string };
+
+const MAX_QUERY_TERMS = 20;
+
+function slugToken(word: string): Token {
+  const slug = normalizeLogoName(word);
+  if (!slug) {
+    throw new InvalidLogoQueryError(`"${word}" is not a logo`);
+  }
+
+  return { type: "slug", slug };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of input.matchAll(/\(|\)|[^\s()]+/g)) {
+    const word = match[0];
+    const keyword = word.toLowerCase();
+
+    if (word === "(" || word === ")") {
+      tokens.push({ type: word });
+    } else if (keyword === "and" || keyword === "or" || keyword === "not") {
+      tokens.push({ type: keyword });
+    } else if (word.length > 1 && word.startsWith("-")) {
+      // "-puma" is shorthand for "NOT puma"
+      tokens.push({ type: "not" }, slugToken(word.slice(1)));
+    } else {
+      tokens.push(slugToken(word));
+    }
+  }
+
+  return tokens;
+}
+
+// recursive descent over: or := and (OR and)*, and := not (AND? not)*,
+// not := NOT not | "(" or ")" | slug
+export function parseLogoQuery(input: string): LogoQuery {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = () => tokens[position]?.type;
+
+  function parseOr(): LogoQuery {
+    const terms = [parseAnd()];
+    while (peek() === "or") {
+      position += 1;
+      terms.push(parseAnd());
+    }
+
+    return terms.length === 1 ? terms[0] : { type: "or", terms };
+  }
+
+  function parseAnd(): LogoQuery {
+    const terms = [parseNot()];
+    for (;;) {
+      if (peek() === "and") {
+        position += 1;
+      } else if (peek() !== "slug" && peek() !== "not" && peek() !== "(") {
+        break;
+      }
+
+      terms.push(parseNot());
+    }
+
+    return terms.length === 1 ? terms[0] : { type: "and", terms };
+  }
+
+  function parseNot(): LogoQuery {
+    const token = tokens[position];
+    position += 1;
+
+    if (token?.type === "not") {
+      return { type: "not", term: parseNot() };
+    }
+
+    if (token?.type === "(") {
+      const inner = parseOr();
+      if (peek() !== ")") {
+        throw new InvalidLogoQueryError("missing closing parenthesis");
+      }
+
+      position += 1;
+      return inner;
+    }
+
+    if (token?.type === "slug") {
+      return { type: "logo", slug: token.slug };
+    }
+
+    throw new InvalidLogoQueryError(
+      token
+        ? `unexpected ${token.type.toUpperCase()}`
+        : "query ended unexpectedly",
+    );
+  }
+
+  if (tokens.length === 0) {
+    throw new InvalidLogoQueryError("query is empty");
+  }
+
+  const query = parseOr();
+  if (position < tokens.length) {
+    throw new InvalidLogoQueryError(
+      `unexpected ${tokens[position].type.toUpperCase()}`,
+    );
+  }
+
+  if (logoQuerySlugs(query).length > MAX_QUERY_TERMS) {
+    throw new InvalidLogoQueryError(
+      `a query can use at most ${MAX_QUERY_TERMS} logos`,
+    );
+  }
+
+  return query;
+}
+
+export function formatLogoQuery(query: LogoQuery): string {
+  switch (query.type) {
+    case "logo":
+      return query.slug;
+    case "not":
+      return query.term.type === "logo" || query.term.type === "not"
+        ? `NOT ${formatLogoQuery(query.term)}`
+        : `NOT (${formatLogoQuery(query.term)})`;
+    case "and":
+      return query.terms
+        .map((term) =>
+          term.type === "or"
+            ? `(${formatLogoQuery(term)})`
+            : formatLogoQuery(term),
+        )
+        .join(" AND ");
+    case "or":
+      return query.terms.map(formatLogoQuery).join(" OR ");
+  }
+}
+
+export function logoQuerySlugs(query: LogoQuery): string[] {
+  switch (query.type) {
+    case "logo":
+      return [query.slug];
+    case "not":
+      return logoQuerySlugs(query.term);
+    default:
+      return [...new Set(query.terms.flatMap(logoQuerySlugs))];
+  }
+}
+
+// slugs the matching photos are required or allowed to contain, i.e. every
+// slug not under a NOT
+export function positiveLogoQuerySlugs(query: LogoQuery): string[] {
+  switch (query.type) {
+    case "logo":
+      return [query.slug];
+    case "not":
+      return [];
+    default:
+      return [...new Set(query.terms.flatMap(positiveLogoQuerySlugs))];
+  }
+}
+
+// rewrites alias slugs to the logos they stand for
+export function resolveLogoQueryAliases(
+  query: LogoQuery,
+  aliases: Map<string, string>,
+): LogoQuery {
+  switch (query.type) {
+    case "logo":
+      return { type: "logo", slug: aliases.get(query.slug) ?? query.slug };
+    case "not":
+      return {
+        type: "not",
+        term: resolveLogoQueryAliases(query.term, aliases),
+      };
+    default:
+      return {
+        type: query.type,
+        terms: query.terms.map((term) =>
+          resolveLogoQueryAliases(term, aliases),
+        ),
+      };
+  }
+}
+
+function intersect(sets: Set<string>[]): Set<string> {
+  const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+  return new Set(
+    [...smallest].filter((value) => rest.every((set) => set.has(value))),
+  );
+}
+
+// evaluates the query against the photo ids carrying each logo. the full
+// set of photo ids is only loaded when a NOT isn't narrowed down by a
+// positive term beside it, e.g. "NOT puma" on its own
+export async function evaluateLogoQuery(
+  query: LogoQuery,
+  photoIdsFor: (slug: string) => Set<string>,
+  loadAllPhotoIds: () => Promise<Set<string>>,
+): Promise<Set<string>> {
+  let universe: Promise<Set<string>> | undefined;
+  const allPhotoIds = () => {
+    universe ??= loadAllPhotoIds();
+    return universe;
+  };
+
+  async function evaluate(node: LogoQuery): Promise<Set<string>> {
+    switch (node.type) {
+      case "logo":
+        return photoIdsFor(node.slug);
+      case "not": {
+        const excluded = await evaluate(node.term);
+        const all = await allPhotoIds();
+        return new Set([...all].filter((id) => !excluded.has(id)));
+      }
+      case "or": {
+        const sets = await Promise.all(node.terms.map(evaluate));
+        return new Set(sets.flatMap((set) => [...set]));
+      }
+      case "and": {
+        const negated = node.terms.filter(
+          (term): term is Extract<LogoQuery, { type: "not" }> =>
+            term.type === "not",
+        );
+        const positive = node.terms.filter((term) => term.type !== "not");
+        if (positive.length === 0) {
+          return evaluate({
+            type: "not",
+            term: { type: "or", terms: negated.map((term) => term.term) },
+          });
+        }
+
+        const matched = intersect(await Promise.all(positive.map(evaluate)));
+        for (const term of negated) {
+          const excluded = await evaluate(term.term);
+          for (const id of excluded) {
+            matched.delete(id);
+          }
+        }
+
+        return matched;
+      }
+    }
+  }
+
+  return evaluate(query);
+}
+
+// the gallery's multi-select filter: logos that must (or may, with "any")
+// appear, and logos that must not
+export type LogoSelection = {
+  include: string[];
+  exclude: string[];
+  match: "all" | "any";
+};
+
+export const EMPTY_LOGO_SELECTION: LogoSelection = {
+  include: [],
+  exclude: [],
+  match: "all",
+};
+
+export function selectionToQuery(selection: LogoSelection): LogoQuery | null {
+  const included: LogoQuery[] = selection.include.map((slug) => ({
+    type: "logo",
+    slug,
+  }));
+  const excluded: LogoQuery[] = selection.exclude.map((slug) => ({
+    type: "not",
+    term: { type: "logo", slug },
+  }));
+
+  const positive: LogoQuery[] =
+    included.length > 1 && selection.match === "any"
+      ? [{ type: "or", terms: included }]
+      : included;
+  const terms = [...positive, ...excluded];
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.length === 1 ? terms[0] : { type: "and", terms };
+}
+
+function listParam(value: string | null | undefined): string[] {
+  return [
+    ...new Set((value ?? "").split(",").map(normalizeLogoName).filter(Boolean)),
+  ];
+}
+
+// ?logos=nike,adidas&exclude=puma&match=any
+export function selectionFromParams(params: URLSearchParams): LogoSelection {
+  const include = listParam(params.get("logos"));
+  return {
+    include,
+    exclude: listParam(params.get("exclude")).filter(
+      (slug) => !include.includes(slug),
+    ),
+    match: params.get("match") === "any" ? "any" : "all",
+  };
+}
+
+export function selectionToParams(selection: LogoSelection): URLSearchParams {
+  const params = new URLSearchParams();
+  if (selection.include.length > 0) {
+    params.set("logos", selection.include.join(","));
+  }
+
+  if (selection.exclude.length > 0) {
+    params.set("exclude", selection.exclude.join(","));
+  }
+
+  if (selection.match === "any") {
+    params.set("match", "any");
+  }
+
+  return params;
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  editDistance,
+  type LogoSearchCandidate,
+  suggestLogos,
+} from "./logo-search";
+
+describe("editDistance", () => {
+  it("counts a swap of neighbours as one edit", () => {
+    assert.equal(editDistance("adidas", "adiads"), 1);
+    assert.equal(editDistance("addidas", "adidas"), 1);
+    assert.equal(editDistance("nike", "nkie"), 1);
+  });
+
+  it("counts inserts, deletes and substitutions", () => {
+    assert.equal(editDistance("", "abc"), 3);
+    assert.equal(editDistance("kitten", "sitting"), 3);
+    assert.equal(editDistance("same", "same"), 0);
+  });
+
+  it("doesn't apply a swap to a substring twice", () => {
+    // optimal string alignment, not full Damerau-Levenshtein
+    assert.equal(editDistance("ca", "abc"), 3);
+  });
+});
+
+describe("suggestLogos", () => {
+  const logos: LogoSearchCandidate[] = [
+    { slug: "adidas", name: "Adidas", totalPhotos: 5 },
+    { slug: "coca-cola", name: "Coca-Cola", totalPhotos: 9 },
+    { slug: "coca-cola-zero", name: "Coca-Cola Zero", totalPhotos: 2 },
+    { slug: "nike", name: "Nike", totalPhotos: 20 },
+  ];
+  const aliases = [{ alias: "coke", name: "Coke", slug: "coca-cola" }];
+  const suggest = (input: string) =>
+    suggestLogos(input, logos, aliases, 10).map(
+      (suggestion) => `${suggestion.slug}:${suggestion.match}`,
+    );
+
+  it("ranks exact matches, then prefixes, then containment", () => {
+    assert.deepEqual(suggest("coca cola"), [
+      "coca-cola:exact",
+      "coca-cola-zero:prefix",
+    ]);
+    assert.deepEqual(suggest("Coca Cola Company"), ["coca-cola:contains"]);
+  });
+
+  it("matches aliases and says which", () => {
+    const [coke] = suggestLogos("coke", logos, aliases, 10);
+    assert.equal(coke.slug, "coca-cola");
+    assert.equal(coke.match, "exact");
+    assert.equal(coke.alias, "Coke");
+  });
+
+  it("allows a typo or two, but not in short queries", () => {
+    assert.deepEqual(suggest("addidas"), ["adidas:fuzzy"]);
+    assert.deepEqual(suggest("nkie"), ["nike:fuzzy"]);
+    assert.deepEqual(suggest("nk"), []);
+  });
+
+  it("orders equal matches by photo count", () => {
+    assert.deepEqual(suggest("c"), [
+      "coca-cola:prefix",
+      "coca-cola-zero:prefix",
+    ]);
+  });
+
+  it("ignores empty queries and respects the limit", () => {
+    assert.deepEqual(suggest("  "), []);
+    assert.equal(suggestLogos("c", logos, aliases, 1).length, 1);
+  });
+});
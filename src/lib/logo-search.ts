@@ -0,0 +1,164 @@
+import { normalizeLogoName } from "./logo-names";
+
+export type LogoSearchCandidate = {
+  slug: string;
+  name: string;
+  totalPhotos: number;
+};
+
+export type LogoAlias = {
+  alias: string;
+  name: string;
+  slug: string;
+};
+
+// best first: the query is the logo (or one of its aliases), starts it,
+// covers it, or is within a typo or two of it
+export type LogoMatch = "exact" | "prefix" | "contains" | "fuzzy";
+
+export type LogoSuggestion = LogoSearchCandidate & {
+  match: LogoMatch;
+  // the alias the query matched, when it wasn't the logo's own name
+  alias?: string;
+};
+
+const MATCH_RANK: Record<LogoMatch, number> = {
+  exact: 0,
+  prefix: 1,
+  contains: 2,
+  fuzzy: 3,
+};
+
+function compact(slug: string): string {
+  return slug.replace(/-/g, "");
+}
+
+// optimal string alignment distance: edits plus swapped neighbours, so
+// "addidas" and "adiads" are both one or two away from "adidas"
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost,
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+// short queries get no slack, otherwise everything would match
+function allowedTypos(length: number): number {
+  if (length < 3) {
+    return 0;
+  }
+
+  return length <= 5 ? 1 : 2;
+}
+
+function matchTerm(query: string, term: string): LogoMatch | null {
+  const queryCompact = compact(query);
+  const termCompact = compact(term);
+
+  if (query === term || queryCompact === termCompact) {
+    return "exact";
+  }
+
+  if (
+    termCompact.startsWith(queryCompact) ||
+    term.split("-").some((word) => word.startsWith(query))
+  ) {
+    return "prefix";
+  }
+
+  // "coca-cola-company" covers "coca-cola"
+  const queryWords = new Set(query.split("-"));
+  if (
+    termCompact.length >= 3 &&
+    term.split("-").every((word) => queryWords.has(word))
+  ) {
+    return "contains";
+  }
+
+  const typos = allowedTypos(queryCompact.length);
+  if (
+    typos > 0 &&
+    (editDistance(queryCompact, termCompact) <= typos ||
+      // still typing: compare against the same length of the name
+      (queryCompact.length < termCompact.length &&
+        editDistance(queryCompact, termCompact.slice(0, queryCompact.length)) <=
+          typos))
+  ) {
+    return "fuzzy";
+  }
+
+  return null;
+}
+
+// ranks logos for an autocomplete box: by how well they match, then by
+// totalPhotos so the logos people are most likely after come first
+export function suggestLogos(
+  input: string,
+  logos: LogoSearchCandidate[],
+  aliases: LogoAlias[],
+  limit: number,
+): LogoSuggestion[] {
+  const query = normalizeLogoName(input);
+  if (!query) {
+    return [];
+  }
+
+  const aliasesBySlug = new Map<string, LogoAlias[]>();
+  for (const alias of aliases) {
+    aliasesBySlug.set(alias.slug, [
+      ...(aliasesBySlug.get(alias.slug) ?? []),
+      alias,
+    ]);
+  }
+
+  const suggestions: LogoSuggestion[] = [];
+  for (const logo of logos) {
+    let best: LogoSuggestion | null = null;
+    const terms = [
+      { term: logo.slug, alias: undefined },
+      { term: normalizeLogoName(logo.name), alias: undefined },
+      ...(aliasesBySlug.get(logo.slug) ?? []).map((alias) => ({
+        term: alias.alias,
+        alias: alias.name,
+      })),
+    ];
+
+    for (const { term, alias } of terms) {
+      const match = matchTerm(query, term);
+      if (match && (!best || MATCH_RANK[match] < MATCH_RANK[best.match])) {
+        best = { ...logo, match, alias };
+      }
+    }
+
+    if (best) {
+      suggestions.push(best);
+    }
+  }
+
+  return suggestions
+    .sort(
+      (a, b) =>
+        MATCH_RANK[a.match] - MATCH_RANK[b.match] ||
+        b.totalPhotos - a.totalPhotos ||
+        a.name.localeCompare(b.name),
+    )
+    .slice(0, limit);
+}
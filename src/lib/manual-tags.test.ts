@@ -0,0 +1,182 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import { UnknownPhotoError } from "./detection-review";
+import { createFileLogoIndexStore, type LogoIndexStore } from "./index-store";
+import { type PhotoWrite, savePhoto, storedPhotoWrite } from "./index-writer";
+import {
+  addManualTag,
+  InvalidManualTagError,
+  ManualTagNotFoundError,
+  parseManualTag,
+  parseManualTagRemoval,
+  removeManualTag,
+} from "./manual-tags";
+
+const box = [
+  { x: 5, y: 5 },
+  { x: 50, y: 25 },
+];
+
+let dir: string;
+let files = 0;
+let store: LogoIndexStore;
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "manual-tags-"));
+});
+
+beforeEach(async () => {
+  files += 1;
+  store = createFileLogoIndexStore({
+    filePath: path.join(dir, `index-${files}.json`),
+  });
+
+  await savePhoto(store, {
+    photoId: "p1",
+    s3Key: "photos/p1.jpg",
+    sourceETag: "v1",
+    detections: [
+      { name: "Nike", slug: "nike", confidence: 0.9, detectionIndex: 0 },
+    ],
+  });
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function stored(): Promise<PhotoWrite> {
+  const item = await store.getPhoto("p1");
+  assert.ok(item);
+  return storedPhotoWrite(item);
+}
+
+function manualTags(photo: PhotoWrite) {
+  return photo.detections
+    .filter((detection) => detection.source === "manual")
+    .map((detection) => [detection.detectionIndex, detection.slug]);
+}
+
+describe("addManualTag", () => {
+  it("indexes the tag like a detection", async () => {
+    const result = await addManualTag(store, "p1", { logo: " Puma " });
+
+    assert.deepEqual(result?.addedSlugs, ["puma"]);
+    assert.deepEqual(manualTags(await stored()), [[1000, "puma"]]);
+    assert.equal((await store.getLogo("puma"))?.displayName, "Puma");
+    assert.equal((await store.getLogo("puma"))?.totalPhotos, 1);
+  });
+
+  it("adds a tag without a box only once, but every boxed one", async () => {
+    await addManualTag(store, "p1", { logo: "Puma" });
+    await addManualTag(store, "p1", { logo: "puma" });
+    await addManualTag(store, "p1", { logo: "Puma", boundingPoly: box });
+
+    assert.deepEqual(manualTags(await stored()), [
+      [1000, "puma"],
+      [1001, "puma"],
+    ]);
+    assert.equal((await store.getLogo("puma"))?.totalPhotos, 1);
+  });
+
+  it("tags the logo an alias points at", async () => {
+    await store.putLogoAlias({
+      alias: "swoosh",
+      displayName: "Swoosh",
+      slug: "nike",
+    });
+
+    await addManualTag(store, "p1", { logo: "Swoosh" });
+
+    assert.deepEqual(manualTags(await stored()), [[1000, "nike"]]);
+    assert.equal((await store.getLogo("nike"))?.totalPhotos, 1);
+  });
+
+  it("survives the source image changing", async () => {
+    await addManualTag(store, "p1", { logo: "Puma" });
+
+    await savePhoto(store, {
+      photoId: "p1",
+      s3Key: "photos/p1.jpg",
+      sourceETag: "v2",
+      detections: [],
+    });
+
+    assert.deepEqual(manualTags(await stored()), [[1000, "puma"]]);
+    assert.equal((await store.getLogo("nike"))?.totalPhotos, 0);
+  });
+
+  it("rejects unknown photos", async () => {
+    await assert.rejects(
+      addManualTag(store, "p9", { logo: "Puma" }),
+      UnknownPhotoError,
+    );
+  });
+});
+
+describe("removeManualTag", () => {
+  it("removes one tag by index or every tag of the logo", async () => {
+    await addManualTag(store, "p1", { logo: "Puma", boundingPoly: box });
+    await addManualTag(store, "p1", { logo: "Puma", boundingPoly: box });
+    await addManualTag(store, "p1", { logo: "Vans" });
+
+    await removeManualTag(store, "p1", { logo: "puma", detectionIndex: 1000 });
+    assert.deepEqual(manualTags(await stored()), [
+      [1001, "puma"],
+      [1002, "vans"],
+    ]);
+
+    const result = await removeManualTag(store, "p1", { logo: "Puma" });
+    assert.deepEqual(result?.removedSlugs, ["puma"]);
+    assert.deepEqual(manualTags(await stored()), [[1002, "vans"]]);
+  });
+
+  it("leaves vision's detections alone", async () => {
+    await assert.rejects(
+      removeManualTag(store, "p1", { logo: "Nike" }),
+      ManualTagNotFoundError,
+    );
+    assert.equal((await stored()).detections.length, 1);
+  });
+});
+
+describe("parsing", () => {
+  it("reads a tag body", () => {
+    assert.deepEqual(parseManualTag({ logo: "Nike", boundingPoly: null }), {
+      logo: "Nike",
+    });
+    assert.deepEqual(parseManualTag({ logo: "Nike", boundingPoly: box }), {
+      logo: "Nike",
+      boundingPoly: box,
+    });
+    assert.throws(() => parseManualTag({ logo: " " }), InvalidManualTagError);
+    assert.throws(
+      () => parseManualTag({ logo: "Nike", boundingPoly: [box[0]] }),
+      InvalidManualTagError,
+    );
+  });
+
+  it("reads a removal query", () => {
+    assert.deepEqual(
+      parseManualTagRemoval(
+        new URLSearchParams("logo=nike&detectionIndex=1001"),
+      ),
+      { logo: "nike", detectionIndex: 1001 },
+    );
+    assert.throws(
+      () => parseManualTagRemoval(new URLSearchParams("detectionIndex=1")),
+      InvalidManualTagError,
+    );
+    assert.throws(
+      () =>
+        parseManualTagRemoval(
+          new URLSearchParams("logo=nike&detectionIndex=x"),
+        ),
+      InvalidManualTagError,
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  addedDetectionIndex,
+  isBoundingPoly,
+  resolveLogoTarget,
+  UnknownPhotoError,
+} from "./detection-review";
+import type { LogoIndexStore } from "./index-store";
+import { type SavePhotoResult, updateStoredPhoto } from "./index-writer";
+import { normalizeLogoName } from "./logo-names";
+import type { LogoDetection } from "./schema";
+
+export type ManualTag = {
+  logo: string;
+  boundingPoly?: Array<{ x: number; y: number }>;
+};
+
+export type ManualTagRemoval = {
+  logo: string;
+  // removes just this tag instead of every manual tag of the logo
+  detectionIndex?: number;
+};
+
+export class InvalidManualTagError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidManualTagError";
+  }
+}
+
+export class ManualTagNotFoundError extends Error {
+  constructor(photoId: string, logo: string) {
+    super(`Photo ${photoId} has no manual tag for "${logo}".`);
+    this.name = "ManualTagNotFoundError";
+  }
+}
+
+// checks a request body, e.g. { "logo": "nike", "boundingPoly":
+// [{ "x": 10, "y": 20 }, { "x": 90, "y": 60 }] }
+export function parseManualTag(body: unknown): ManualTag {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new InvalidManualTagError("The request body must be a JSON object.");
+  }
+
+  const { logo, boundingPoly } = body as Record<string, unknown>;
+
+  if (typeof logo !== "string" || !normalizeLogoName(logo)) {
+    throw new InvalidManualTagError("logo is required.");
+  }
+
+  if (boundingPoly === undefined || boundingPoly === null) {
+    return { logo };
+  }
+
+  if (!isBoundingPoly(boundingPoly)) {
+    throw new InvalidManualTagError(
+      "boundingPoly must be a list of at least two {x, y} points.",
+    );
+  }
+
+  return { logo, boundingPoly };
+}
+
+export function parseManualTagRemoval(
+  params: URLSearchParams,
+): ManualTagRemoval {
+  const logo = params.get("logo") ?? "";
+  if (!normalizeLogoName(logo)) {
+    throw new InvalidManualTagError("logo is required.");
+  }
+
+  const rawIndex = params.get("detectionIndex");
+  if (rawIndex === null) {
+    return { logo };
+  }
+
+  const detectionIndex = Number(rawIndex);
+  if (!Number.isInteger(detectionIndex)) {
+    throw new InvalidManualTagError("detectionIndex must be an integer.");
+  }
+
+  return { logo, detectionIndex };
+}
+
+// tags the photo with a logo vision didn't find. the tag is indexed like a
+// detection, through the same writer the ingester uses, so the logo's
+// mappings and photo count follow it
+export async function addManualTag(
+  store: LogoIndexStore,
+  photoId: string,
+  tag: ManualTag,
+): Promise<SavePhotoResult | null> {
+  if (!(await store.getPhoto(photoId))) {
+    throw new UnknownPhotoError(photoId);
+  }
+
+  const target = await resolveLogoTarget(store, tag.logo);
+
+  return updateStoredPhoto(store, photoId, (photo) => {
+    // tagging the same logo again without a box changes nothing
+    const tagged = photo.detections.some(
+      (detection) =>
+        detection.source === "manual" &&
+        detection.slug === target.slug &&
+        !detection.boundingPoly,
+    );
+    if (tagged && !tag.boundingPoly) {
+      return photo;
+    }
+
+    const detection: LogoDetection = {
+      name: target.name,
+      slug: target.slug,
+      confidence: 1,
+      boundingPoly: tag.boundingPoly,
+      detectionIndex: addedDetectionIndex(photo),
+      source: "manual",
+    };
+
+    return { ...photo, detections: [...photo.detections, detection] };
+  });
+}
+
+// removes manual tags only. vision's detections are rejected through a
+// review instead, so the original result is kept
+export async function removeManualTag(
+  store: LogoIndexStore,
+  photoId: string,
+  removal: ManualTagRemoval,
+): Promise<SavePhotoResult | null> {
+  if (!(await store.getPhoto(photoId))) {
+    throw new UnknownPhotoError(photoId);
+  }
+
+  const { slug } = await resolveLogoTarget(store, removal.logo);
+  const matches = (detection: LogoDetection) =>
+    detection.source === "manual" &&
+    detection.slug === slug &&
+    (removal.detectionIndex === undefined ||
+      detection.detectionIndex === removal.detectionIndex);
+  let found = false;
+
+  const result = await updateStoredPhoto(store, photoId, (photo) => {
+    const detections = photo.detections.filter(
+      (detection) => !matches(detection),
+    );
+    const suppressedDetections = photo.suppressedDetections?.filter(
+      (detection) => !matches(detection),
+    );
+    const removed =
+      photo.detections.length +
+      (photo.suppressedDetections?.length ?? 0) -
+      detections.length -
+      (suppressedDetections?.length ?? 0);
+    found = removed > 0;
+
+    return found
+      ? {
+          ...photo,
+          detections,
+          suppressedDetections:
+            suppressedDetections && suppressedDetections.length > 0
+              ? suppressedDetections
+              : undefined,
+        }
+      : photo;
+  });
+
+  if (!found) {
+    throw new ManualTagNotFoundError(photoId, removal.logo);
+  }
+
+  return result;
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  DEFAULT_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  InvalidPageRequestError,
+  parsePageParams,
+} from "./pagination";
+
+describe("cursors", () => {
+  it("round-trip any sort key", () => {
+    for (const key of ["photo-1", "nike#photo-1#0", "ünïcødé/+=", ""]) {
+      const cursor = encodeCursor(key);
+      assert.match(cursor, /^[A-Za-z0-9_-]*$/);
+      assert.equal(decodeCursor(cursor), key);
+    }
+  });
+
+  it("reject anything they didn't make", () => {
+    for (const cursor of ["not a cursor", "e30", encodeCursor("x").slice(2)]) {
+      assert.throws(() => decodeCursor(cursor), InvalidPageRequestError);
+    }
+  });
+});
+
+describe("parsePageParams", () => {
+  const parse = (query: string) => parsePageParams(new URLSearchParams(query));
+
+  it("defaults the limit and checks the cursor", () => {
+    assert.deepEqual(parse(""), {
+      limit: DEFAULT_PAGE_SIZE,
+      cursor: undefined,
+    });
+    const cursor = encodeCursor("photo-1");
+    assert.deepEqual(parse(`limit=5&cursor=${cursor}`), { limit: 5, cursor });
+    assert.throws(() => parse("cursor=nope"), InvalidPageRequestError);
+  });
+
+  it("rejects limits outside 1 to 100", () => {
+    for (const limit of ["0", "101", "2.5", "ten", ""]) {
+      assert.throws(() => parse(`limit=${limit}`), InvalidPageRequestError);
+    }
+  });
+});
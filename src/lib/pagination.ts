@@ -0,0 +1,58 @@
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export type PageRequest = {
+  limit: number;
+  cursor?: string;
+};
+
+export type Page<T> = {
+  items: T[];
+  // null once there is nothing further to fetch
+  nextCursor: string | null;
+};
+
+export class InvalidPageRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPageRequestError";
+  }
+}
+
+// cursors wrap the sort key to continue after. they're opaque to clients so
+// the position can carry more than a key later without breaking anyone
+export function encodeCursor(after: string): string {
+  return Buffer.from(JSON.stringify({ after })).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): string {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof parsed?.after === "string") {
+      return parsed.after;
+    }
+  } catch {
+    // reported below
+  }
+
+  throw new InvalidPageRequestError("cursor is not valid");
+}
+
+// reads ?limit= and ?cursor=; a missing limit gets the default page size
+export function parsePageParams(params: URLSearchParams): PageRequest {
+  const rawLimit = params.get("limit");
+  const limit = rawLimit === null ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new InvalidPageRequestError(
+      `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`,
+    );
+  }
+
+  const cursor = params.get("cursor") || undefined;
+  if (cursor !== undefined) {
+    decodeCursor(cursor);
+  }
+
+  return { limit, cursor };
+}
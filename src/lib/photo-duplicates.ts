@@ -0,0 +1,141 @@
+import sharp from "sharp";
+
+// hashes this many bits apart or closer are treated as the same photo.
+// re-encoded and resized copies are usually 0 to 3 apart; unrelated photos
+// are around 32
+export const DEFAULT_DUPLICATE_DISTANCE = Number(
+  process.env.DUPLICATE_MAX_DISTANCE ?? 5,
+);
+
+const HASH_WIDTH = 8;
+const HASH_HEIGHT = 8;
+
+// bits set in each hex digit
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+export type HashedPhoto = {
+  photoId: string;
+  perceptualHash: string;
+  createdAt?: string;
+};
+
+export type DuplicateGroup = {
+  canonical: string;
+  // the other photos in the group, in photo id order
+  duplicates: string[];
+  // the largest distance from the canonical photo's hash
+  maxDistance: number;
+};
+
+// a 64 bit difference hash as 16 hex digits. the photo is shrunk to 9x8
+// greys and each bit says whether a pixel is darker than the one to its
+// right, so it survives re-encoding, resizing and small edits
+export async function perceptualHash(bytes: Buffer): Promise<string> {
+  const pixels = await sharp(bytes)
+    .rotate()
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize(HASH_WIDTH + 1, HASH_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = "";
+  let nibble = 0;
+  for (let y = 0; y < HASH_HEIGHT; y += 1) {
+    for (let x = 0; x < HASH_WIDTH; x += 1) {
+      const offset = y * (HASH_WIDTH + 1) + x;
+      nibble = (nibble << 1) | (pixels[offset] < pixels[offset + 1] ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+}
+
+// the number of bits two hashes differ in
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    distance +=
+      NIBBLE_BITS[
+        Number.parseInt(a[index], 16) ^ Number.parseInt(b[index] ?? "0", 16)
+      ];
+  }
+
+  return distance;
+}
+
+// the oldest photo is canonical, on the assumption later copies are
+// re-uploads. photos without a date come last
+function canonicalOrder(a: HashedPhoto, b: HashedPhoto): number {
+  if (a.createdAt !== b.createdAt) {
+    if (!a.createdAt) {
+      return 1;
+    }
+
+    if (!b.createdAt) {
+      return -1;
+    }
+
+    return a.createdAt < b.createdAt ? -1 : 1;
+  }
+
+  return a.photoId < b.photoId ? -1 : 1;
+}
+
+// links every pair of photos within maxDistance and returns the groups of
+// two or more. a chain of small differences can make a group whose ends are
+// further apart than maxDistance. every pair is compared, so this is meant
+// for a report run, not for each ingest
+export function groupDuplicates(
+  photos: HashedPhoto[],
+  maxDistance = DEFAULT_DUPLICATE_DISTANCE,
+): DuplicateGroup[] {
+  const parents = photos.map((_, index) => index);
+  const root = (index: number): number => {
+    let current = index;
+    while (parents[current] !== current) {
+      parents[current] = parents[parents[current]];
+      current = parents[current];
+    }
+
+    return current;
+  };
+
+  for (let i = 0; i < photos.length; i += 1) {
+    for (let j = i + 1; j < photos.length; j += 1) {
+      if (
+        hashDistance(photos[i].perceptualHash, photos[j].perceptualHash) <=
+        maxDistance
+      ) {
+        parents[root(j)] = root(i);
+      }
+    }
+  }
+
+  const members = new Map<number, HashedPhoto[]>();
+  photos.forEach((photo, index) => {
+    const group = members.get(root(index)) ?? [];
+    group.push(photo);
+    members.set(root(index), group);
+  });
+
+  return [...members.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const [canonical, ...rest] = [...group].sort(canonicalOrder);
+      return {
+        canonical: canonical.photoId,
+        duplicates: rest.map((photo) => photo.photoId).sort(),
+        maxDistance: Math.max(
+          ...rest.map((photo) =>
+            hashDistance(canonical.perceptualHash, photo.perceptualHash),
+          ),
+        ),
+      };
+    })
+    .sort((a, b) => (a.canonical < b.canonical ? -1 : 1));
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  InvalidPhotoFilterError,
+  isTakenInRange,
+  type PhotoSort,
+  parsePhotoFilterParams,
+  photoFilterToParams,
+  photoSortKey,
+  photoTime,
+} from "./photo-filter";
+
+describe("parsePhotoFilterParams", () => {
+  const parse = (query: string) =>
+    parsePhotoFilterParams(new URLSearchParams(query));
+
+  it("reads every filter and writes it back", () => {
+    const query =
+      "minConfidence=0.8&sort=oldest&duplicates=collapse&takenAfter=2024-01-01&takenBefore=2024-02-01";
+    assert.equal(photoFilterToParams(parse(query)).toString(), query);
+  });
+
+  it("drops a zero minConfidence", () => {
+    assert.deepEqual(parse("minConfidence=0"), {});
+  });
+
+  it("rejects bad values", () => {
+    for (const query of [
+      "minConfidence=2",
+      "minConfidence=high",
+      "sort=random",
+      "duplicates=hide",
+      "takenAfter=yesterday",
+    ]) {
+      assert.throws(() => parse(query), InvalidPhotoFilterError, query);
+    }
+  });
+});
+
+describe("photoTime", () => {
+  it("prefers the capture time and reads zoneless times as UTC", () => {
+    assert.equal(
+      photoTime({
+        takenAt: "2024-05-01T10:00:00",
+        createdAt: "2025-01-01T00:00:00Z",
+      }),
+      Date.UTC(2024, 4, 1, 10),
+    );
+    assert.equal(
+      photoTime({ takenAt: "2024-05-01T10:00:00+10:00" }),
+      Date.UTC(2024, 4, 1, 0),
+    );
+    assert.equal(photoTime({ createdAt: "2024-05-01" }), Date.UTC(2024, 4, 1));
+    assert.ok(Number.isNaN(photoTime({})));
+  });
+});
+
+describe("isTakenInRange", () => {
+  const filter = { takenAfter: "2024-01-01", takenBefore: "2024-02-01" };
+
+  it("includes the start and excludes the end", () => {
+    assert.ok(isTakenInRange({ takenAt: "2024-01-01T00:00:00Z" }, filter));
+    assert.ok(!isTakenInRange({ takenAt: "2024-02-01T00:00:00Z" }, filter));
+    assert.ok(isTakenInRange({ createdAt: "2024-01-15T00:00:00Z" }, filter));
+  });
+
+  it("leaves out undated photos only when there is a range", () => {
+    assert.ok(!isTakenInRange({}, filter));
+    assert.ok(isTakenInRange({}, {}));
+  });
+});
+
+describe("photoSortKey", () => {
+  const photos = [
+    { id: "a", confidence: 0.5, takenAt: "2024-03-01T00:00:00Z" },
+    { id: "b", confidence: 0.9, createdAt: "2024-01-01T00:00:00Z" },
+    { id: "c", confidence: 0.9, takenAt: "2024-02-01T00:00:00Z" },
+    { id: "d" },
+  ];
+  const order = (sort: PhotoSort) =>
+    photos
+      .map((photo) => ({ id: photo.id, key: photoSortKey(sort, photo) }))
+      .sort((x, y) => (x.key < y.key ? -1 : 1))
+      .map(({ id }) => id)
+      .join("");
+
+  it("orders by code unit the way each sort asks", () => {
+    assert.equal(order("id"), "abcd");
+    assert.equal(order("newest"), "acbd");
+    assert.equal(order("oldest"), "bcad");
+    assert.equal(order("confidence"), "bcad");
+  });
+
+  it("puts photos from before 1970 in order, and undated ones last", () => {
+    const dated = [
+      { id: "a", takenAt: "1969-07-20T20:17:00Z" },
+      { id: "b", takenAt: "1970-01-01T00:00:00Z" },
+      { id: "c", takenAt: "1901-01-01T00:00:00Z" },
+      { id: "d", takenAt: "2024-01-01T00:00:00Z" },
+      { id: "e", takenAt: "not a date" },
+      { id: "f" },
+    ];
+    const sorted = (sort: PhotoSort) =>
+      dated
+        .map((photo) => ({ id: photo.id, key: photoSortKey(sort, photo) }))
+        .sort((x, y) => (x.key < y.key ? -1 : 1))
+        .map(({ id }) => id)
+        .join("");
+
+    assert.equal(sorted("oldest"), "cabdef");
+    assert.equal(sorted("newest"), "dbacef");
+  });
+
+  it("breaks ties by photo id", () => {
+    assert.ok(
+      photoSortKey("confidence", { id: "b", confidence: 0.9 }) <
+        photoSortKey("confidence", { id: "c", confidence: 0.9 }),
+    );
+  });
+});
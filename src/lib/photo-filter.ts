@@ -0,0 +1,229 @@
+// "confidence" reads the whole result set before returning a page. the
+// others page straight from the store, unless there is a date range
+export const PHOTO_SORTS = ["newest", "oldest", "confidence", "id"] as const;
+
+export type PhotoSort = (typeof PHOTO_SORTS)[number];
+
+// listings without ?sort= are newest first
+export const DEFAULT_PHOTO_SORT: PhotoSort = "newest";
+
+export type PhotoFilter = {
+  // detections below this (0 to 1) are treated as if they weren't there
+  minConfidence?: number;
+  sort?: PhotoSort;
+  // leaves out photos grouped as duplicates of another indexed photo, and
+  // doesn't count them towards logo totals
+  collapseDuplicates?: boolean;
+  // ISO dates compared with photoTime; after is inclusive, before isn't
+  takenAfter?: string;
+  takenBefore?: string;
+};
+
+export type DatedPhoto = {
+  takenAt?: string;
+  createdAt?: string;
+};
+
+export class InvalidPhotoFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPhotoFilterError";
+  }
+}
+
+function isPhotoSort(value: string): value is PhotoSort {
+  return (PHOTO_SORTS as readonly string[]).includes(value);
+}
+
+function parseDateParam(params: URLSearchParams, name: string) {
+  const value = params.get(name);
+  if (value === null || value === "") {
+    return undefined;
+  }
+
+  if (Number.isNaN(photoTime({ takenAt: value }))) {
+    throw new InvalidPhotoFilterError(`${name} must be an ISO 8601 date`);
+  }
+
+  return value;
+}
+
+// reads ?minConfidence=, ?sort=, ?duplicates=collapse, ?takenAfter= and
+// ?takenBefore=
+export function parsePhotoFilterParams(params: URLSearchParams): PhotoFilter {
+  const filter: PhotoFilter = {};
+
+  const rawMinConfidence = params.get("minConfidence");
+  if (rawMinConfidence !== null && rawMinConfidence !== "") {
+    const minConfidence = Number(rawMinConfidence);
+    if (
+      !Number.isFinite(minConfidence) ||
+      minConfidence < 0 ||
+      minConfidence > 1
+    ) {
+      throw new InvalidPhotoFilterError(
+        "minConfidence must be a number from 0 to 1",
+      );
+    }
+
+    if (minConfidence > 0) {
+      filter.minConfidence = minConfidence;
+    }
+  }
+
+  const sort = params.get("sort");
+  if (sort !== null && sort !== "") {
+    if (!isPhotoSort(sort)) {
+      throw new InvalidPhotoFilterError(
+        `sort must be one of ${PHOTO_SORTS.join(", ")}`,
+      );
+    }
+
+    filter.sort = sort;
+  }
+
+  const duplicates = params.get("duplicates");
+  if (duplicates !== null && duplicates !== "") {
+    if (duplicates !== "collapse") {
+      throw new InvalidPhotoFilterError('duplicates must be "collapse"');
+    }
+
+    filter.collapseDuplicates = true;
+  }
+
+  const takenAfter = parseDateParam(params, "takenAfter");
+  if (takenAfter) {
+    filter.takenAfter = takenAfter;
+  }
+
+  const takenBefore = parseDateParam(params, "takenBefore");
+  if (takenBefore) {
+    filter.takenBefore = takenBefore;
+  }
+
+  return filter;
+}
+
+export function photoFilterToParams(filter: PhotoFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.minConfidence) {
+    params.set("minConfidence", String(filter.minConfidence));
+  }
+
+  if (filter.sort) {
+    params.set("sort", filter.sort);
+  }
+
+  if (filter.collapseDuplicates) {
+    params.set("duplicates", "collapse");
+  }
+
+  if (filter.takenAfter) {
+    params.set("takenAfter", filter.takenAfter);
+  }
+
+  if (filter.takenBefore) {
+    params.set("takenBefore", filter.takenBefore);
+  }
+
+  return params;
+}
+
+// when the photo was taken, or when it was indexed for photos without a
+// capture time. capture times without an offset are read as UTC so the
+// order doesn't depend on the server's time zone. NaN when neither is known
+export function photoTime(photo: DatedPhoto): number {
+  const time = photo.takenAt ?? photo.createdAt;
+  if (!time) {
+    return Number.NaN;
+  }
+
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(time);
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(time);
+  return Date.parse(hasZone || dateOnly ? time : `${time}Z`);
+}
+
+export function hasDateRange(filter: PhotoFilter): boolean {
+  return Boolean(filter.takenAfter || filter.takenBefore);
+}
+
+export function isTakenInRange(
+  photo: DatedPhoto,
+  filter: PhotoFilter,
+): boolean {
+  if (!hasDateRange(filter)) {
+    return true;
+  }
+
+  const time = photoTime(photo);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+
+  return (
+    (!filter.takenAfter || time >= photoTime({ takenAt: filter.takenAfter })) &&
+    (!filter.takenBefore || time < photoTime({ takenAt: filter.takenBefore }))
+  );
+}
+
+export function meetsMinConfidence(
+  confidence: number | undefined,
+  filter: PhotoFilter,
+): boolean {
+  return !filter.minConfidence || (confidence ?? 0) >= filter.minConfidence;
+}
+
+// the furthest from 1970 a Date can be, either way
+const MAX_TIME = 8.64e15;
+
+// a fixed width string for a photoTime that orders by code unit, oldest
+// first or newest first. times before 1970 are negative, so a leading digit
+// keeps them on the right side of the rest, and the digits after it are
+// never negative
+function timeKey(time: number, newest: boolean): string {
+  const clamped = Math.min(Math.max(time, -MAX_TIME), MAX_TIME);
+  const before1970 = clamped < 0;
+  const [lead, magnitude] = newest
+    ? before1970
+      ? ["1", -clamped]
+      : ["0", MAX_TIME - clamped]
+    : before1970
+      ? ["0", MAX_TIME + clamped]
+      : ["1", clamped];
+
+  return `${lead}${String(magnitude).padStart(16, "0")}`;
+}
+
+// sorts after every time key
+const UNDATED_KEY = "2";
+
+// photoTime as a time key, oldest first. the index keeps it on photos and
+// their logo mappings so listings by time can page from the store
+export function photoTimeKey(photo: DatedPhoto): string {
+  const time = photoTime(photo);
+  return Number.isNaN(time) ? UNDATED_KEY : timeKey(time, false);
+}
+
+// a string that orders photos the way `sort` asks when compared by code
+// unit, so sorted listings page with the same cursors as the store does.
+// newest and oldest go by photoTime. photos without a date or confidence
+// go last
+export function photoSortKey(
+  sort: PhotoSort,
+  photo: DatedPhoto & { id: string; confidence?: number },
+): string {
+  if (sort === "id") {
+    return photo.id;
+  }
+
+  if (sort === "confidence") {
+    return `${(1 - (photo.confidence ?? 0)).toFixed(6)}#${photo.id}`;
+  }
+
+  const time = photoTime(photo);
+  if (sort === "oldest" || Number.isNaN(time)) {
+    return `${photoTimeKey(photo)}#${photo.id}`;
+  }
+
+  return `${timeKey(time, true)}#${photo.id}`;
+}
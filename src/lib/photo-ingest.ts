@@ -0,0 +1,213 @@
+import {
+  type DerivedImage,
+  withCrops,
+  writeDerivedImages,
+} from "./derived-images";
+import {
+  applyDetectionRules,
+  type DetectionRules,
+  loadDetectionRules,
+} from "./detection-rules";
+import { createLogoDetector, type LogoDetector } from "./detectors";
+import { readPhotoMetadata } from "./image-metadata";
+import { type ImageSize, readImageSize } from "./image-size";
+import { getLogoIndexStore, type LogoIndexStore } from "./index-store";
+import {
+  type PhotoWrite,
+  type SavePhotoResult,
+  savePhoto,
+} from "./index-writer";
+import { perceptualHash } from "./photo-duplicates";
+import {
+  createPhotoSource,
+  type PhotoContent,
+  type PhotoObject,
+  type PhotoSource,
+} from "./photo-sources";
+import { createTokenBucket } from "./rate-limit";
+import { withRetry } from "./retry";
+import {
+  type LogoDetection,
+  type PhotoMetadata,
+  readLogoAliasTargets,
+} from "./schema";
+
+// aliases change rarely, so a long running ingest only rereads them now
+// and then
+const ALIAS_CACHE_MS = 60_000;
+
+export type DetectedPhoto = {
+  object: PhotoObject;
+  logos: LogoDetection[];
+  imageSize?: ImageSize;
+  thumbnail?: DerivedImage;
+  perceptualHash?: string;
+  metadata?: PhotoMetadata;
+};
+
+export type SavedPhoto = {
+  photo: PhotoWrite;
+  result: SavePhotoResult;
+};
+
+export type PhotoIngesterOptions = {
+  store: LogoIndexStore;
+  source: PhotoSource;
+  detector: LogoDetector;
+  // detections the rules reject are kept on the photo but not indexed; see
+  // detection-rules.ts. without a file every detection is indexed
+  rulesFile?: string;
+  // detector calls per second; vision's default quota is 1800 a minute
+  detectorRateLimit?: number;
+};
+
+export type PhotoIngester = {
+  source: PhotoSource;
+  detectionRules(): Promise<DetectionRules>;
+  detect(content: PhotoContent): Promise<DetectedPhoto>;
+  // downloads and detects in one go; the object metadata comes back with
+  // the detections so callers that only know the key can still record it
+  detectKey(key: string): Promise<DetectedPhoto>;
+  save(detected: DetectedPhoto): Promise<SavedPhoto>;
+};
+
+// what one photo goes through on its way into the index, shared by the
+// ingest CLI, the lambda handler and uploads from the app
+export function createPhotoIngester(
+  options: PhotoIngesterOptions,
+): PhotoIngester {
+  const { store, source, detector, rulesFile } = options;
+  const detectorBucket = createTokenBucket(options.detectorRateLimit ?? 10);
+  let rules: Promise<DetectionRules> | undefined;
+  let aliasCache = {
+    loadedAt: 0,
+    targets: Promise.resolve(new Map<string, string>()),
+  };
+
+  // read once; a broken rules file fails every photo rather than silently
+  // indexing everything
+  function detectionRules(): Promise<DetectionRules> {
+    rules ??= rulesFile ? loadDetectionRules(rulesFile) : Promise.resolve({});
+    return rules;
+  }
+
+  function aliasTargets(): Promise<Map<string, string>> {
+    if (Date.now() - aliasCache.loadedAt > ALIAS_CACHE_MS) {
+      const targets = store.listLogoAliases().then(readLogoAliasTargets);
+      aliasCache = { loadedAt: Date.now(), targets };
+      // a failed load is retried on the next photo rather than cached
+      targets.catch(() => {
+        aliasCache = { loadedAt: 0, targets };
+      });
+    }
+
+    return aliasCache.targets;
+  }
+
+  // detections of a merged away logo land on the logo it was merged into.
+  // the name vision gave is kept
+  async function resolveAliases(
+    logos: LogoDetection[],
+  ): Promise<LogoDetection[]> {
+    const targets = await aliasTargets();
+    return logos.map((logo) => {
+      const slug = targets.get(logo.slug);
+      return slug ? { ...logo, slug } : logo;
+    });
+  }
+
+  async function detect({ bytes, object }: PhotoContent) {
+    const logos = await withRetry(
+      async () => {
+        await detectorBucket.take();
+        return detector.detect(bytes, { key: object.key });
+      },
+      { label: `Detecting logos in ${object.key}` },
+    );
+
+    const { thumbnail, crops } = await writeDerivedImages(
+      source,
+      source.photoId(object.key),
+      bytes,
+      logos,
+    );
+
+    return {
+      object,
+      logos: withCrops(logos, crops),
+      imageSize: readImageSize(bytes) ?? undefined,
+      thumbnail,
+      // like thumbnails, a photo that can't be hashed is indexed anyway
+      perceptualHash: await perceptualHash(bytes).catch((error) => {
+        console.warn(`Couldn't hash ${object.key}`, error);
+        return undefined;
+      }),
+      metadata: await readPhotoMetadata(bytes).catch((error) => {
+        console.warn(`Couldn't read metadata from ${object.key}`, error);
+        return {};
+      }),
+    };
+  }
+
+  return {
+    source,
+    detectionRules,
+    detect,
+
+    async detectKey(key) {
+      const content = await withRetry(() => source.read(key), {
+        label: `Downloading ${key}`,
+      });
+
+      return detect(content);
+    },
+
+    async save({
+      object,
+      logos,
+      imageSize,
+      thumbnail,
+      perceptualHash,
+      metadata,
+    }) {
+      const { key } = object;
+      const { detections, suppressedDetections } = applyDetectionRules(
+        await resolveAliases(logos),
+        await detectionRules(),
+        imageSize,
+      );
+      const photo: PhotoWrite = {
+        photoId: source.photoId(key),
+        s3Key: key,
+        publicUrl: source.publicUrl(key),
+        detections,
+        suppressedDetections:
+          suppressedDetections.length > 0 ? suppressedDetections : undefined,
+        imageSize,
+        thumbnailKey: thumbnail?.key,
+        thumbnailUrl: thumbnail?.url,
+        perceptualHash,
+        metadata,
+        sourceETag: object.etag,
+        sourceLastModified: object.lastModified,
+      };
+
+      return { photo, result: await savePhoto(store, photo) };
+    },
+  };
+}
+
+let sharedIngester: PhotoIngester | undefined;
+
+// the app's ingester, configured from the same env vars as the CLI. built
+// lazily like getLogoIndexStore
+export function getPhotoIngester(): PhotoIngester {
+  sharedIngester ??= createPhotoIngester({
+    store: getLogoIndexStore(),
+    source: createPhotoSource(),
+    detector: createLogoDetector(),
+    rulesFile: process.env.DETECTION_RULES_FILE,
+    detectorRateLimit: Number(process.env.DETECTOR_RATE_LIMIT ?? 10),
+  });
+  return sharedIngester;
+}
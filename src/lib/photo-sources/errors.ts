@@ -0,0 +1,17 @@
+export class PhotoNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Photo ${key} no longer exists.`);
+    this.name = "PhotoNotFoundError";
+  }
+}
+
+// statusCode is what isTransientError checks, so 429s and 5xxs get retried
+export class PhotoFetchError extends Error {
+  readonly statusCode: number;
+
+  constructor(key: string, statusCode: number) {
+    super(`Fetching ${key} failed with HTTP ${statusCode}.`);
+    this.name = "PhotoFetchError";
+    this.statusCode = statusCode;
+  }
+}
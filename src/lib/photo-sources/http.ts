@@ -0,0 +1,76 @@
+import { readFile } from "node:fs/promises";
+
+import { PhotoFetchError, PhotoNotFoundError } from "./errors";
+import { photoIdFromPath } from "./keys";
+import type { PhotoSource } from "./types";
+
+export type HttpPhotoSourceOptions = {
+  // a text file with one image url per line; blank lines and lines
+  // starting with # are skipped
+  listFile: string;
+};
+
+export async function readUrlList(listFile: string): Promise<string[]> {
+  const lines = (await readFile(listFile, "utf8")).split(/\r?\n/);
+  const urls = lines
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+
+  return [...new Set(urls)].sort();
+}
+
+// keys are the urls themselves, which are also served as the image url.
+// nothing is known about a url until it is fetched, so every listed url is
+// downloaded again on each run
+export function createHttpPhotoSource(
+  options: HttpPhotoSourceOptions,
+): PhotoSource {
+  const { listFile } = options;
+
+  return {
+    kind: "http",
+    location: `list:${listFile}`,
+
+    async *list(startAfter) {
+      for (const url of await readUrlList(listFile)) {
+        if (startAfter === undefined || url > startAfter) {
+          yield { key: url };
+        }
+      }
+    },
+
+    async read(key) {
+      const response = await fetch(key);
+
+      if (response.status === 404 || response.status === 410) {
+        throw new PhotoNotFoundError(key);
+      }
+
+      if (!response.ok) {
+        throw new PhotoFetchError(key, response.status);
+      }
+
+      const lastModified = response.headers.get("last-modified");
+
+      return {
+        bytes: Buffer.from(await response.arrayBuffer()),
+        object: {
+          key,
+          etag: response.headers.get("etag") ?? undefined,
+          lastModified: lastModified
+            ? new Date(lastModified).toISOString()
+            : undefined,
+        },
+      };
+    },
+
+    photoId(key) {
+      const url = new URL(key);
+      return photoIdFromPath(`${url.hostname}${url.pathname}`);
+    },
+
+    publicUrl(key) {
+      return key;
+    },
+  };
+}
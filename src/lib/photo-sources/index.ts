@@ -0,0 +1,68 @@
+import { createHttpPhotoSource } from "./http";
+import { createLocalPhotoSource } from "./local";
+import { createS3PhotoSource } from "./s3";
+import type { PhotoSource, PhotoSourceKind } from "./types";
+
+export { PhotoFetchError, PhotoNotFoundError } from "./errors";
+export { createHttpPhotoSource, readUrlList } from "./http";
+export {
+  DERIVED_IMAGE_FOLDER,
+  imageContentType,
+  isHiddenKey,
+  photoIdFromPath,
+} from "./keys";
+export { createLocalPhotoSource, DEFAULT_LOCAL_PHOTO_ROUTE } from "./local";
+export { createS3PhotoSource } from "./s3";
+export type * from "./types";
+
+export function resolvePhotoSourceKind(): PhotoSourceKind {
+  const kind = process.env.PHOTO_SOURCE ?? "s3";
+
+  if (kind !== "s3" && kind !== "local" && kind !== "http") {
+    throw new Error(
+      `PHOTO_SOURCE must be "s3", "local" or "http", got "${kind}".`,
+    );
+  }
+
+  return kind;
+}
+
+export const DEFAULT_S3_PREFIX = "photos/";
+
+// where the s3 source keeps photos in the bucket
+export function resolveS3Prefix(): string {
+  return process.env.S3_PREFIX ?? DEFAULT_S3_PREFIX;
+}
+
+function requireEnv(name: string, kind: PhotoSourceKind): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(
+      `${name} env var is required for the ${kind} photo source.`,
+    );
+  }
+
+  return value;
+}
+
+export function createPhotoSource(
+  kind: PhotoSourceKind = resolvePhotoSourceKind(),
+): PhotoSource {
+  if (kind === "local") {
+    return createLocalPhotoSource({
+      rootDir: requireEnv("LOCAL_PHOTO_DIR", kind),
+    });
+  }
+
+  if (kind === "http") {
+    return createHttpPhotoSource({
+      listFile: requireEnv("PHOTO_URL_LIST", kind),
+    });
+  }
+
+  return createS3PhotoSource({
+    bucket: requireEnv("S3_BUCKET", kind),
+    prefix: resolveS3Prefix(),
+    publicBaseUrl: process.env.S3_PUBLIC_BASE_URL,
+  });
+}
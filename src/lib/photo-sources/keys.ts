@@ -0,0 +1,32 @@
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+};
+
+function extension(filePath: string): string {
+  return (/\.[^/.]+$/.exec(filePath)?.[0] ?? "").toLowerCase();
+}
+
+// "brand/shoe 1.jpg" -> "brand-shoe-1"
+export function photoIdFromPath(relativePath: string): string {
+  const withoutExt = relativePath.replace(/\.[^/.]+$/, "");
+  return withoutExt.replace(/[^a-zA-Z0-9_-]/g, "-");
+}
+
+// undefined for anything that isn't an image the detector understands
+export function imageContentType(filePath: string): string | undefined {
+  return IMAGE_CONTENT_TYPES[extension(filePath)];
+}
+
+// thumbnails and logo crops are stored in the source next to the photos,
+// under a hidden folder that listing skips
+export const DERIVED_IMAGE_FOLDER = ".derived";
+
+// true when any folder or file name in the path starts with a dot
+export function isHiddenKey(key: string): boolean {
+  return key.split("/").some((part) => part.startsWith("."));
+}
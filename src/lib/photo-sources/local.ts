@@ -0,0 +1,144 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+import { PhotoNotFoundError } from "./errors";
+import { imageContentType, photoIdFromPath } from "./keys";
+import type { PhotoObject, PhotoSource } from "./types";
+
+export const DEFAULT_LOCAL_PHOTO_ROUTE = "/api/local-photos";
+
+export type LocalPhotoSourceOptions = {
+  rootDir: string;
+  // where the app serves the directory; see src/app/api/local-photos
+  publicBaseUrl?: string;
+};
+
+// keys are paths relative to the root, always with forward slashes
+async function walk(rootDir: string, dir = ""): Promise<string[]> {
+  const entries = await readdir(path.join(rootDir, dir), {
+    withFileTypes: true,
+  });
+  const keys: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) {
+      continue;
+    }
+
+    const key = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      keys.push(...(await walk(rootDir, key)));
+    } else if (entry.isFile() && imageContentType(key)) {
+      keys.push(key);
+    }
+  }
+
+  return keys;
+}
+
+function describe(
+  key: string,
+  stats: { size: number; mtime: Date },
+): PhotoObject {
+  // size and mtime stand in for an etag; good enough to notice a replaced file
+  return {
+    key,
+    etag: `"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`,
+    lastModified: stats.mtime.toISOString(),
+  };
+}
+
+// indexes a folder of images, e.g. for a demo index without a bucket
+export function createLocalPhotoSource(
+  options: LocalPhotoSourceOptions,
+): PhotoSource {
+  const rootDir = path.resolve(options.rootDir);
+  const publicBaseUrl = (
+    options.publicBaseUrl ?? DEFAULT_LOCAL_PHOTO_ROUTE
+  ).replace(/\/$/, "");
+
+  // refuses keys that would escape the root, since the app route passes
+  // request paths straight through
+  function resolveKey(key: string): string {
+    const filePath = path.resolve(rootDir, key);
+    if (
+      !filePath.startsWith(`${rootDir}${path.sep}`) ||
+      !imageContentType(key)
+    ) {
+      throw new PhotoNotFoundError(key);
+    }
+
+    return filePath;
+  }
+
+  return {
+    kind: "local",
+    location: `file://${rootDir}/`,
+
+    async *list(startAfter) {
+      const keys = (await walk(rootDir)).sort();
+
+      for (const key of keys) {
+        if (startAfter !== undefined && key <= startAfter) {
+          continue;
+        }
+
+        yield describe(key, await stat(path.join(rootDir, key)));
+      }
+    },
+
+    async read(key) {
+      const filePath = resolveKey(key);
+
+      try {
+        const [bytes, stats] = await Promise.all([
+          readFile(filePath),
+          stat(filePath),
+        ]);
+        return { bytes, object: describe(key, stats) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          throw new PhotoNotFoundError(key);
+        }
+
+        throw error;
+      }
+    },
+
+    photoId(key) {
+      return photoIdFromPath(key);
+    },
+
+    publicUrl(key) {
+      return `${publicBaseUrl}/${key.split("/").map(encodeURIComponent).join("/")}`;
+    },
+
+    keyFor(name) {
+      return name;
+    },
+
+    async removeFolder(name) {
+      const dirPath = path.resolve(rootDir, name);
+      if (!dirPath.startsWith(`${rootDir}${path.sep}`)) {
+        return;
+      }
+
+      await rm(dirPath, { recursive: true, force: true });
+    },
+
+    async write(name, bytes) {
+      const filePath = resolveKey(name);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, bytes);
+
+      return describe(name, await stat(filePath));
+    },
+  };
+}
@@ -0,0 +1,245 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+import { withRetry } from "../retry";
+import { PhotoNotFoundError } from "./errors";
+import { isHiddenKey, photoIdFromPath } from "./keys";
+import type { PhotoSource } from "./types";
+
+export type S3PhotoSourceOptions = {
+  bucket: string;
+  prefix: string;
+  publicBaseUrl?: string;
+  client?: S3Client;
+  // how long presigned upload urls stay valid
+  uploadUrlExpiresIn?: number;
+};
+
+async function asBuffer(stream: unknown): Promise<Buffer> {
+  if (!stream) {
+    return Buffer.alloc(0);
+  }
+
+  if (Buffer.isBuffer(stream)) {
+    return stream;
+  }
+
+  if (stream instanceof Uint8Array) {
+    return Buffer.from(stream);
+  }
+
+  const candidate = stream as {
+    transformToByteArray?: () => Promise<Uint8Array>;
+  };
+  if (typeof candidate.transformToByteArray === "function") {
+    return Buffer.from(await candidate.transformToByteArray());
+  }
+
+  return new Promise((resolve, reject) => {
+    const readable = stream as NodeJS.ReadableStream;
+    const chunks: Buffer[] = [];
+    readable.on("data", (chunk) =>
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)),
+    );
+    readable.on("end", () => resolve(Buffer.concat(chunks)));
+    readable.on("error", reject);
+  });
+}
+
+export function createS3PhotoSource(
+  options: S3PhotoSourceOptions,
+): PhotoSource {
+  const { bucket, prefix } = options;
+  const client =
+    options.client ??
+    new S3Client({ region: process.env.AWS_REGION ?? "ap-southeast-2" });
+  const publicBaseUrl = options.publicBaseUrl?.replace(/\/$/, "");
+
+  return {
+    kind: "s3",
+    location: `s3://${bucket}/${prefix}`,
+
+    // pages through the prefix lazily so a limited or resumed run never
+    // lists more than it needs
+    async *list(startAfter) {
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await withRetry(
+          () =>
+            client.send(
+              new ListObjectsV2Command({
+                Bucket: bucket,
+                Prefix: prefix,
+                ContinuationToken: continuationToken,
+                StartAfter: continuationToken ? undefined : startAfter,
+                MaxKeys: 1000,
+              }),
+            ),
+          { label: "Listing photos" },
+        );
+
+        for (const object of response.Contents ?? []) {
+          if (
+            !object.Key ||
+            object.Key.endsWith("/") ||
+            isHiddenKey(object.Key.slice(prefix.length))
+          ) {
+            continue;
+          }
+
+          yield {
+            key: object.Key,
+            etag: object.ETag,
+            lastModified: object.LastModified?.toISOString(),
+          };
+        }
+
+        continuationToken = response.NextContinuationToken;
+      } while (continuationToken);
+    },
+
+    async read(key) {
+      try {
+        const response = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key }),
+        );
+
+        if (!response.Body) {
+          throw new Error(`S3 object body missing for ${key}`);
+        }
+
+        return {
+          bytes: await asBuffer(response.Body),
+          object: {
+            key,
+            etag: response.ETag,
+            lastModified: response.LastModified?.toISOString(),
+          },
+        };
+      } catch (error) {
+        if ((error as Error).name === "NoSuchKey") {
+          throw new PhotoNotFoundError(key);
+        }
+
+        throw error;
+      }
+    },
+
+    photoId(key) {
+      return photoIdFromPath(
+        key.startsWith(prefix) ? key.slice(prefix.length) : key,
+      );
+    },
+
+    publicUrl(key) {
+      return publicBaseUrl ? `${publicBaseUrl}/${key}` : undefined;
+    },
+
+    keyFor(name) {
+      return `${prefix}${name}`;
+    },
+
+    async size(key) {
+      try {
+        const response = await client.send(
+          new HeadObjectCommand({ Bucket: bucket, Key: key }),
+        );
+
+        return response.ContentLength ?? 0;
+      } catch (error) {
+        // HEAD responses have no body, so a missing key is just NotFound
+        if ((error as Error).name === "NotFound") {
+          throw new PhotoNotFoundError(key);
+        }
+
+        throw error;
+      }
+    },
+
+    async write(name, bytes, contentType) {
+      const key = `${prefix}${name}`;
+      const response = await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: bytes,
+          ContentType: contentType,
+        }),
+      );
+      // PUT doesn't say when s3 stored the object, and the ingester's
+      // listing compares against s3's time, not ours. if the object was
+      // replaced in between, the time is left out rather than mismatched
+      const head = await client.send(
+        new HeadObjectCommand({ Bucket: bucket, Key: key }),
+      );
+
+      return {
+        key,
+        etag: response.ETag,
+        lastModified:
+          head.ETag === response.ETag
+            ? head.LastModified?.toISOString()
+            : undefined,
+      };
+    },
+
+    async removeFolder(name) {
+      const folder = `${prefix}${name.replace(/\/$/, "")}/`;
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: folder,
+            ContinuationToken: continuationToken,
+            MaxKeys: 1000,
+          }),
+        );
+        const keys = (response.Contents ?? []).flatMap((object) =>
+          object.Key ? [{ Key: object.Key }] : [],
+        );
+
+        if (keys.length > 0) {
+          const deleted = await client.send(
+            new DeleteObjectsCommand({
+              Bucket: bucket,
+              Delete: { Objects: keys, Quiet: true },
+            }),
+          );
+          const [failed] = deleted.Errors ?? [];
+          if (failed) {
+            throw new Error(
+              `Deleting ${failed.Key} failed: ${failed.Code} ${failed.Message}`,
+            );
+          }
+        }
+
+        continuationToken = response.NextContinuationToken;
+      } while (continuationToken);
+    },
+
+    async uploadUrl(name, contentType) {
+      const key = `${prefix}${name}`;
+      const url = await getSignedUrl(
+        client,
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ContentType: contentType,
+        }),
+        { expiresIn: options.uploadUrlExpiresIn ?? 900 },
+      );
+
+      return { key, url };
+    },
+  };
+}
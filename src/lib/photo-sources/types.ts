@@ -0,0 +1,47 @@
+export type PhotoSourceKind = "s3" | "local" | "http";
+
+// one listed photo. etag and lastModified are whatever the source can tell
+// us cheaply, and are what unchanged photos are recognised by
+export type PhotoObject = {
+  key: string;
+  etag?: string;
+  lastModified?: string;
+};
+
+export type PhotoContent = {
+  object: PhotoObject;
+  bytes: Buffer;
+};
+
+export type PhotoSource = {
+  kind: PhotoSourceKind;
+  // identifies what is being listed, e.g. s3://bucket/photos/, so a
+  // checkpoint is only ever resumed against the same photos
+  location: string;
+  // yields keys in ascending order, starting after `startAfter`
+  list(startAfter?: string): AsyncGenerator<PhotoObject>;
+  // throws PhotoNotFoundError when the photo has gone
+  read(key: string): Promise<PhotoContent>;
+  photoId(key: string): string;
+  publicUrl(key: string): string | undefined;
+  // only sources the app can upload to have these. `name` is a path
+  // relative to where the source keeps its photos, e.g. "uploads/shoe.jpg"
+  write?(
+    name: string,
+    bytes: Buffer,
+    contentType: string,
+  ): Promise<PhotoObject>;
+  // the key write and uploadUrl store `name` under
+  keyFor?(name: string): string;
+  // the object's size in bytes, without downloading it. throws
+  // PhotoNotFoundError when the photo has gone
+  size?(key: string): Promise<number>;
+  // deletes everything in the folder `name`, e.g. a photo's derived
+  // images. a folder that isn't there is left alone
+  removeFolder?(name: string): Promise<void>;
+  // a presigned PUT url the browser can upload `name` to directly
+  uploadUrl?(
+    name: string,
+    contentType: string,
+  ): Promise<{ key: string; url: string }>;
+};
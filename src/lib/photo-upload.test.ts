@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+
+import type { PhotoIngester } from "./photo-ingest";
+import { PhotoNotFoundError, type PhotoSource } from "./photo-sources";
+import {
+  completeUpload,
+  createUploadUrl,
+  InvalidUploadError,
+  MAX_UPLOAD_BYTES,
+  UploadsUnsupportedError,
+} from "./photo-upload";
+
+const PREFIX = "photos/";
+
+let objects: Map<string, Buffer>;
+let detected: string[];
+
+// a bucket in memory whose objects can change between the HEAD and the GET,
+// the way a second PUT to a presigned url could
+function memorySource(): PhotoSource {
+  return {
+    kind: "s3",
+    location: `memory://${PREFIX}`,
+    async *list() {},
+    async read(key) {
+      const bytes = objects.get(key);
+      if (!bytes) {
+        throw new PhotoNotFoundError(key);
+      }
+
+      return { object: { key, etag: `"${bytes.length}"` }, bytes };
+    },
+    photoId: (key) => key.slice(PREFIX.length),
+    publicUrl: () => undefined,
+    keyFor: (name) => `${PREFIX}${name}`,
+    async size(key) {
+      const bytes = objects.get(key);
+      if (!bytes) {
+        throw new PhotoNotFoundError(key);
+      }
+
+      return bytes.length;
+    },
+    async uploadUrl(name) {
+      return { key: `${PREFIX}${name}`, url: `https://upload/${name}` };
+    },
+  };
+}
+
+function fakeIngester(source: PhotoSource): PhotoIngester {
+  return {
+    source,
+    detectionRules: async () => assert.fail("uploads run no rules here"),
+    async detect(content) {
+      detected.push(content.object.key);
+      return { object: content.object, logos: [] };
+    },
+    detectKey: async () => assert.fail("uploads shouldn't be re-read"),
+    async save(photo) {
+      return {
+        photo: {
+          photoId: source.photoId(photo.object.key),
+          s3Key: photo.object.key,
+          detections: photo.logos,
+        },
+        result: { addedSlugs: [], removedSlugs: [], staleMappings: 0 },
+      };
+    },
+  };
+}
+
+let ingester: PhotoIngester;
+
+beforeEach(() => {
+  objects = new Map();
+  detected = [];
+  ingester = fakeIngester(memorySource());
+});
+
+describe("createUploadUrl", () => {
+  it("hands out a fresh key in the upload folder", async () => {
+    const upload = await createUploadUrl(ingester, "C:\\Team Photo.JPG");
+
+    assert.match(
+      upload.key,
+      /^photos\/uploads\/[a-z0-9]+-[0-9a-f]{6}-team-photo\.jpg$/,
+    );
+    assert.equal(upload.contentType, "image/jpeg");
+  });
+
+  it("refuses files that aren't images", async () => {
+    await assert.rejects(
+      createUploadUrl(ingester, "notes.txt"),
+      InvalidUploadError,
+    );
+  });
+});
+
+describe("completeUpload", () => {
+  it("detects and saves an uploaded photo once", async () => {
+    const { key } = await createUploadUrl(ingester, "team.png");
+    objects.set(key, Buffer.alloc(100));
+
+    const { photo } = await completeUpload(ingester, key);
+
+    assert.equal(photo.s3Key, key);
+    assert.deepEqual(detected, [key]);
+  });
+
+  it("only completes keys directly in the upload folder", async () => {
+    for (const key of [
+      "photos/team.jpg",
+      "photos/uploads/",
+      "photos/uploads/nested/team.jpg",
+      "other/uploads/team.jpg",
+      "photos/uploads/notes.txt",
+    ]) {
+      objects.set(key, Buffer.alloc(100));
+      await assert.rejects(completeUpload(ingester, key), InvalidUploadError);
+    }
+
+    assert.deepEqual(detected, []);
+  });
+
+  it("checks the size before downloading and again after", async () => {
+    objects.set("photos/uploads/empty.jpg", Buffer.alloc(0));
+    objects.set("photos/uploads/big.jpg", Buffer.alloc(MAX_UPLOAD_BYTES + 1));
+    await assert.rejects(
+      completeUpload(ingester, "photos/uploads/empty.jpg"),
+      /is empty/,
+    );
+    await assert.rejects(
+      completeUpload(ingester, "photos/uploads/big.jpg"),
+      /larger than 10MB/,
+    );
+
+    const source = memorySource();
+    const read = source.read.bind(source);
+    source.read = async (key) => {
+      objects.set(key, Buffer.alloc(MAX_UPLOAD_BYTES + 1));
+      return read(key);
+    };
+    objects.set("photos/uploads/swapped.jpg", Buffer.alloc(100));
+    await assert.rejects(
+      completeUpload(fakeIngester(source), "photos/uploads/swapped.jpg"),
+      /larger than 10MB/,
+    );
+
+    assert.deepEqual(detected, []);
+  });
+
+  it("reports uploads that never arrived", async () => {
+    await assert.rejects(
+      completeUpload(ingester, "photos/uploads/missing.jpg"),
+      PhotoNotFoundError,
+    );
+  });
+
+  it("needs a source that takes presigned uploads", async () => {
+    const { uploadUrl: _uploadUrl, ...source } = memorySource();
+
+    await assert.rejects(
+      completeUpload(fakeIngester(source), "photos/uploads/team.jpg"),
+      UploadsUnsupportedError,
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { randomBytes } from "node:crypto";
+
+import type { PhotoIngester, SavedPhoto } from "./photo-ingest";
+import { imageContentType } from "./photo-sources";
+import { withRetry } from "./retry";
+
+// vision rejects images over 20MB, and base64 makes them bigger still
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// uploaded photos go under this folder of the photo source
+export const UPLOAD_FOLDER = "uploads";
+
+export type UploadFile = {
+  name: string;
+  bytes: Buffer;
+};
+
+export class InvalidUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidUploadError";
+  }
+}
+
+export class UploadsUnsupportedError extends Error {
+  constructor(sourceKind: string, what = "uploads") {
+    super(`The ${sourceKind} photo source doesn't support ${what}.`);
+    this.name = "UploadsUnsupportedError";
+  }
+}
+
+function checkContentType(filename: string): string {
+  const contentType = imageContentType(filename);
+  if (!contentType) {
+    throw new InvalidUploadError(
+      `${filename} isn't a JPEG, PNG, GIF, WebP or BMP image.`,
+    );
+  }
+
+  return contentType;
+}
+
+function checkSize(filename: string, size: number) {
+  if (size === 0) {
+    throw new InvalidUploadError(`${filename} is empty.`);
+  }
+
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new InvalidUploadError(
+      `${filename} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB.`,
+    );
+  }
+}
+
+// "Team Photo.JPG" -> "uploads/lq3x8k2a-9f1c2e-team-photo.jpg". the prefix
+// keeps two uploads with the same name apart
+function uploadName(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() ?? "";
+  const extension = (/\.[^.]+$/.exec(base)?.[0] ?? "").toLowerCase();
+  const stem =
+    base
+      .slice(0, base.length - extension.length)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 60) || "photo";
+  const unique = `${Date.now().toString(36)}-${randomBytes(3).toString("hex")}`;
+
+  return `${UPLOAD_FOLDER}/${unique}-${stem}${extension}`;
+}
+
+// stores the file in the photo source, then detects and indexes it the way
+// the ingester would
+export async function uploadPhoto(
+  ingester: PhotoIngester,
+  file: UploadFile,
+): Promise<SavedPhoto> {
+  const contentType = checkContentType(file.name);
+  checkSize(file.name, file.bytes.length);
+
+  const { source } = ingester;
+  if (!source.write) {
+    throw new UploadsUnsupportedError(source.kind);
+  }
+
+  const object = await source.write(
+    uploadName(file.name),
+    file.bytes,
+    contentType,
+  );
+
+  return ingester.save(await ingester.detect({ object, bytes: file.bytes }));
+}
+
+// a presigned url for the browser to PUT the file to, after which
+// completeUpload indexes it
+export async function createUploadUrl(
+  ingester: PhotoIngester,
+  filename: string,
+): Promise<{ key: string; url: string; contentType: string }> {
+  const contentType = checkContentType(filename);
+  const { source } = ingester;
+  if (!source.uploadUrl) {
+    throw new UploadsUnsupportedError(source.kind, "presigned uploads");
+  }
+
+  return {
+    ...(await source.uploadUrl(uploadName(filename), contentType)),
+    contentType,
+  };
+}
+
+// only keys like the ones createUploadUrl hands out, directly in the
+// upload folder under the source's prefix, can be completed, so this can't
+// be used to index arbitrary objects. a presigned PUT can't limit the size,
+// so it is checked here before anything is downloaded
+export async function completeUpload(
+  ingester: PhotoIngester,
+  key: string,
+): Promise<SavedPhoto> {
+  const { source } = ingester;
+  if (!source.uploadUrl || !source.keyFor || !source.size) {
+    throw new UploadsUnsupportedError(source.kind, "presigned uploads");
+  }
+
+  const folder = source.keyFor(`${UPLOAD_FOLDER}/`);
+  const name = key.slice(folder.length);
+  if (!key.startsWith(folder) || !name || name.includes("/")) {
+    throw new InvalidUploadError(`${key} isn't an uploaded photo.`);
+  }
+
+  checkContentType(key);
+
+  const size = source.size.bind(source);
+  checkSize(
+    key,
+    await withRetry(() => size(key), { label: `Checking ${key}` }),
+  );
+
+  const content = await withRetry(() => source.read(key), {
+    label: `Downloading ${key}`,
+  });
+  // in case the object was replaced since it was checked
+  checkSize(key, content.bytes.length);
+
+  return ingester.save(await ingester.detect(content));
+}
@@ -0,0 +1,46 @@
+import { sleep } from "./retry";
+
+export type TokenBucket = {
+  take(): Promise<void>;
+};
+
+// allows `ratePerSecond` calls on average with bursts of up to `burst`.
+// takers queue up so they are served in order
+export function createTokenBucket(
+  ratePerSecond: number,
+  burst = Math.max(1, Math.ceil(ratePerSecond)),
+): TokenBucket {
+  if (!Number.isFinite(ratePerSecond) || ratePerSecond <= 0) {
+    return { take: async () => {} };
+  }
+
+  let tokens = burst;
+  let refilledAt = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(
+      burst,
+      tokens + ((now - refilledAt) / 1000) * ratePerSecond,
+    );
+    refilledAt = now;
+  }
+
+  async function acquire() {
+    refill();
+    while (tokens < 1) {
+      await sleep(((1 - tokens) / ratePerSecond) * 1000);
+      refill();
+    }
+    tokens -= 1;
+  }
+
+  return {
+    take() {
+      const next = queue.then(acquire);
+      queue = next;
+      return next;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+export type RetryOptions = {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // shown in the warning logged before each retry
+  label?: string;
+  isRetryable?: (error: unknown) => boolean;
+};
+
+const DEFAULT_ATTEMPTS = Number(process.env.INGEST_MAX_ATTEMPTS ?? 5);
+
+const TRANSIENT_ERROR_NAMES = new Set([
+  "ThrottlingException",
+  "Throttling",
+  "TooManyRequestsException",
+  "ProvisionedThroughputExceededException",
+  "RequestLimitExceeded",
+  "TransactionConflictException",
+  "InternalServerError",
+  "InternalError",
+  "ServiceUnavailable",
+  "SlowDown",
+  "RequestTimeout",
+  "TimeoutError",
+]);
+
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+]);
+
+// grpc status codes vision uses for retryable failures
+const TRANSIENT_GRPC_CODES = new Set([
+  4, // DEADLINE_EXCEEDED
+  8, // RESOURCE_EXHAUSTED
+  13, // INTERNAL
+  14, // UNAVAILABLE
+]);
+
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+
+  const candidate = error as {
+    name?: string;
+    code?: string | number;
+    $retryable?: unknown;
+    statusCode?: number;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  if (candidate.$retryable) {
+    return true;
+  }
+
+  if (candidate.name && TRANSIENT_ERROR_NAMES.has(candidate.name)) {
+    return true;
+  }
+
+  if (
+    typeof candidate.code === "string" &&
+    TRANSIENT_ERROR_CODES.has(candidate.code)
+  ) {
+    return true;
+  }
+
+  if (
+    typeof candidate.code === "number" &&
+    TRANSIENT_GRPC_CODES.has(candidate.code)
+  ) {
+    return true;
+  }
+
+  const status = candidate.$metadata?.httpStatusCode ?? candidate.statusCode;
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// "full jitter": a random delay up to the exponential ceiling, so parallel
+// workers that failed together don't retry together
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs = 200,
+  maxDelayMs = 10_000,
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.random() * ceiling;
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> {
+  const attempts = options.attempts ?? DEFAULT_ATTEMPTS;
+  const isRetryable = options.isRetryable ?? isTransientError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= attempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = backoffDelay(
+        attempt,
+        options.baseDelayMs,
+        options.maxDelayMs,
+      );
+      console.warn(
+        `${options.label ?? "Operation"} failed (attempt ${attempt}/${attempts}), retrying in ${Math.round(delay)}ms`,
+        error instanceof Error ? error.message : error,
+      );
+      await sleep(delay);
+    }
+  }
+}
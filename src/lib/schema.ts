@@ -0,0 +1,388 @@
+// Item layout shared by the ingester (writes) and the repository (reads).
+// Bump SCHEMA_VERSION whenever the stored shape changes and teach
+// `upgradeItem` how to bring older items forward; `npm run migrate` applies it.
+
+import { photoTimeKey } from "./photo-filter";
+
+// 3 added timeKey to photos and logo mappings
+export const SCHEMA_VERSION = 3;
+
+export const PHOTO_PARTITION_KEY = "PHOTO";
+export const LOGO_PARTITION_KEY = "LOGO";
+// failed ingestions live next to the photos they would have produced
+export const INGEST_FAILURE_PARTITION_KEY = "FAILURE";
+// alternative names for a logo, e.g. "coke" -> "coca-cola". they live next
+// to the logo summaries
+export const LOGO_ALIAS_PARTITION_KEY = "ALIAS";
+const LOGO_MAPPING_PREFIX = "LOGO#";
+
+export type IndexItem = Record<string, unknown>;
+
+export type ItemKind =
+  | "photo"
+  | "logo"
+  | "photo-logo"
+  | "ingest-failure"
+  | "logo-alias";
+
+// what a reviewer decided about a detection. reviewed detections are kept
+// as they are when rules are applied again or the same image is re-ingested
+export type DetectionReview = {
+  status: "confirmed" | "rejected" | "relabelled" | "added";
+  reviewer: string;
+  reviewedAt: string;
+  // the logo vision named, for relabelled detections
+  original?: { name: string; slug: string };
+};
+
+export type LogoDetection = {
+  name: string;
+  slug: string;
+  confidence: number;
+  boundingPoly?: Array<{ x: number; y: number }>;
+  detectionIndex: number;
+  // missing for detections vision made. "review" boxes were drawn while
+  // reviewing vision's detections, "manual" ones are tags added by hand
+  source?: "review" | "manual";
+  review?: DetectionReview;
+  // a small image of just the logo, stored in the photo source next to the
+  // photo. cropUrl is missing when the source has no public url for it
+  cropKey?: string;
+  cropUrl?: string;
+};
+
+// detections added by people are numbered from here, clear of the ones
+// vision returns
+export const ADDED_DETECTION_INDEX_BASE = 1000;
+
+// why the detection rules kept a detection out of the index
+export type SuppressionReason =
+  | "blocklist"
+  | "allowlist"
+  | "confidence"
+  | "area"
+  // a reviewer rejected it
+  | "rejected";
+
+// a detection the rules rejected. it stays on the photo, without mappings
+// or counts, so changed rules can be applied again without calling vision
+export type SuppressedDetection = LogoDetection & {
+  reason: SuppressionReason;
+};
+
+// what the ingester keeps from a photo's EXIF. every field is optional;
+// screenshots, edited exports and most PNGs have none of them
+export type PhotoMetadata = {
+  // when the photo was taken, as an ISO 8601 date. it has an offset only
+  // when the camera recorded one; otherwise it's the camera's local time
+  takenAt?: string;
+  camera?: { make?: string; model?: string };
+  // the EXIF orientation, 1 to 8. 5 to 8 are turned a quarter, so the photo
+  // is shown with its width and height swapped
+  orientation?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+};
+
+export type PhotoInput = {
+  photoId: string;
+  s3Key: string;
+  publicUrl?: string;
+  detections: LogoDetection[];
+  suppressedDetections?: SuppressedDetection[];
+  // pixel size read from the image header, for area rules
+  imageSize?: { width: number; height: number };
+  // a resized copy for listings, stored like cropKey and cropUrl
+  thumbnailKey?: string;
+  thumbnailUrl?: string;
+  // see photo-duplicates.ts. duplicateOf is the canonical photo of the
+  // group this one was found in, and is missing on the canonical photo
+  perceptualHash?: string;
+  duplicateOf?: string;
+  // read from EXIF at ingest. an empty object means there was nothing to
+  // read; photos indexed before this don't have it at all
+  metadata?: PhotoMetadata;
+  // ETag and LastModified of the source object, used to skip unchanged
+  // objects on the next run
+  sourceETag?: string;
+  sourceLastModified?: string;
+  createdAt: string;
+  updatedAt?: string;
+  // bumped on every write so concurrent re-ingestion of the same photo can
+  // be detected
+  revision: number;
+};
+
+export type LogoMappingKey = {
+  slug: string;
+  photoId: string;
+  detectionIndex: number;
+};
+
+export type LogoMappingInput = LogoMappingKey & {
+  confidence: number;
+  // photoTimeKey of the photo, so a logo's photos can be paged by time
+  photoTimeKey: string;
+  s3Key?: string;
+  publicUrl?: string;
+  boundingPoly?: Array<{ x: number; y: number }>;
+  cropKey?: string;
+  cropUrl?: string;
+};
+
+// the detection a logo summary uses for its chip: the highest confidence
+// one seen across all photos
+export type LogoRepresentative = {
+  photoId: string;
+  s3Key?: string;
+  publicUrl?: string;
+  confidence: number;
+  boundingPoly?: Array<{ x: number; y: number }>;
+  cropKey?: string;
+  cropUrl?: string;
+};
+
+// summary attributes describing the representative detection
+export const LOGO_REPRESENTATIVE_FIELDS = [
+  "topConfidence",
+  "firstPhotoId",
+  "firstPhotoS3Key",
+  "firstPhotoUrl",
+  "firstDetectionBounds",
+  "firstCropKey",
+  "firstCropUrl",
+] as const;
+
+export type IngestFailureInput = {
+  key: string;
+  errorName: string;
+  message: string;
+  failedAt: string;
+};
+
+export type LogoAliasInput = {
+  // normalised like a slug; the raw spelling is kept as displayName
+  alias: string;
+  displayName: string;
+  // the canonical logo the alias stands for
+  slug: string;
+};
+
+export function logoMappingPartitionKey(slug: string): string {
+  return `${LOGO_MAPPING_PREFIX}${slug}`;
+}
+
+export function logoMappingSortKey(
+  photoId: string,
+  detectionIndex: number,
+): string {
+  return `${photoId}#${detectionIndex.toString().padStart(4, "0")}`;
+}
+
+// photos and logo mappings carry a timeKey: the photo's photoTimeKey
+// followed by the item's own sort key, so it is unique in the partition and
+// the sort key can be read back from it. the time key never contains a "#"
+function timeIndexKey(timePart: string, sortKey: string): string {
+  return `${timePart}#${sortKey}`;
+}
+
+export function sortKeyFromTimeKey(timeKey: string): string {
+  return timeKey.slice(timeKey.indexOf("#") + 1);
+}
+
+function storedPhotoTimeKey(item: IndexItem): string {
+  const metadata = item.metadata as PhotoMetadata | undefined;
+  return photoTimeKey({
+    takenAt:
+      typeof metadata?.takenAt === "string" ? metadata.takenAt : undefined,
+    createdAt: typeof item.createdAt === "string" ? item.createdAt : undefined,
+  });
+}
+
+export function buildPhotoItem(photo: PhotoInput): IndexItem {
+  return {
+    PK: PHOTO_PARTITION_KEY,
+    SK: photo.photoId,
+    _type: "photo",
+    schemaVersion: SCHEMA_VERSION,
+    s3Key: photo.s3Key,
+    publicUrl: photo.publicUrl,
+    detections: photo.detections,
+    suppressedDetections: photo.suppressedDetections,
+    imageSize: photo.imageSize,
+    thumbnailKey: photo.thumbnailKey,
+    thumbnailUrl: photo.thumbnailUrl,
+    perceptualHash: photo.perceptualHash,
+    duplicateOf: photo.duplicateOf,
+    metadata: photo.metadata,
+    sourceETag: photo.sourceETag,
+    sourceLastModified: photo.sourceLastModified,
+    createdAt: photo.createdAt,
+    updatedAt: photo.updatedAt,
+    revision: photo.revision,
+    timeKey: timeIndexKey(
+      photoTimeKey({
+        takenAt: photo.metadata?.takenAt,
+        createdAt: photo.createdAt,
+      }),
+      photo.photoId,
+    ),
+  };
+}
+
+export function logoMappingItemKey(mapping: LogoMappingKey): {
+  PK: string;
+  SK: string;
+} {
+  return {
+    PK: logoMappingPartitionKey(mapping.slug),
+    SK: logoMappingSortKey(mapping.photoId, mapping.detectionIndex),
+  };
+}
+
+export function buildLogoMappingItem(mapping: LogoMappingInput): IndexItem {
+  const key = logoMappingItemKey(mapping);
+  const item: IndexItem = {
+    ...key,
+    _type: "logo#photo",
+    schemaVersion: SCHEMA_VERSION,
+    photoId: mapping.photoId,
+    confidence: mapping.confidence,
+    detectionIndex: mapping.detectionIndex,
+    timeKey: timeIndexKey(mapping.photoTimeKey, key.SK),
+  };
+
+  if (mapping.s3Key) {
+    item.s3Key = mapping.s3Key;
+  }
+
+  if (mapping.publicUrl) {
+    item.publicUrl = mapping.publicUrl;
+  }
+
+  if (mapping.boundingPoly) {
+    item.boundingPoly = mapping.boundingPoly;
+  }
+
+  if (mapping.cropKey) {
+    item.cropKey = mapping.cropKey;
+  }
+
+  if (mapping.cropUrl) {
+    item.cropUrl = mapping.cropUrl;
+  }
+
+  return item;
+}
+
+export function buildLogoAliasItem(alias: LogoAliasInput): IndexItem {
+  return {
+    PK: LOGO_ALIAS_PARTITION_KEY,
+    SK: alias.alias,
+    _type: "alias",
+    schemaVersion: SCHEMA_VERSION,
+    displayName: alias.displayName,
+    slug: alias.slug,
+  };
+}
+
+export function buildLogoRepresentativeFields(
+  representative: LogoRepresentative,
+): Partial<Record<(typeof LOGO_REPRESENTATIVE_FIELDS)[number], unknown>> {
+  return {
+    topConfidence: representative.confidence,
+    firstPhotoId: representative.photoId,
+    firstPhotoS3Key: representative.s3Key,
+    firstPhotoUrl: representative.publicUrl,
+    firstDetectionBounds: representative.boundingPoly,
+    firstCropKey: representative.cropKey,
+    firstCropUrl: representative.cropUrl,
+  };
+}
+
+export function classifyItem(item: IndexItem): ItemKind | null {
+  const partitionKey = item.PK;
+
+  if (partitionKey === PHOTO_PARTITION_KEY) {
+    return "photo";
+  }
+
+  if (partitionKey === LOGO_PARTITION_KEY) {
+    return "logo";
+  }
+
+  if (partitionKey === INGEST_FAILURE_PARTITION_KEY) {
+    return "ingest-failure";
+  }
+
+  if (partitionKey === LOGO_ALIAS_PARTITION_KEY) {
+    return "logo-alias";
+  }
+
+  if (
+    typeof partitionKey === "string" &&
+    partitionKey.startsWith(LOGO_MAPPING_PREFIX)
+  ) {
+    return "photo-logo";
+  }
+
+  return null;
+}
+
+// alias -> the slug of the logo it stands for
+export function readLogoAliasTargets(items: IndexItem[]): Map<string, string> {
+  return new Map(
+    items
+      .filter((item) => typeof item.slug === "string")
+      .map((item) => [String(item.SK), String(item.slug)] as const),
+  );
+}
+
+// v1 photo items written by the ingester kept detections under
+// `detectedLogos`; readers accept both until everything is migrated
+export function readPhotoDetections(item: IndexItem): IndexItem[] {
+  if (Array.isArray(item.detections)) {
+    return item.detections as IndexItem[];
+  }
+
+  if (Array.isArray(item.detectedLogos)) {
+    return item.detectedLogos as IndexItem[];
+  }
+
+  return [];
+}
+
+// returns the item rewritten to the current schema, or null when it is
+// already current. a logo mapping takes its timeKey from its photo, looked
+// up in `photos` by id; one whose photo is gone is left without
+export function upgradeItem(
+  item: IndexItem,
+  photos: Map<string, IndexItem>,
+): IndexItem | null {
+  if (item.schemaVersion === SCHEMA_VERSION) {
+    return null;
+  }
+
+  const upgraded: IndexItem = { ...item, schemaVersion: SCHEMA_VERSION };
+  const kind = classifyItem(item);
+
+  if (kind === "photo") {
+    if ("detectedLogos" in upgraded) {
+      upgraded.detections = readPhotoDetections(item);
+      delete upgraded.detectedLogos;
+    }
+
+    upgraded.timeKey = timeIndexKey(storedPhotoTimeKey(item), String(item.SK));
+  }
+
+  if (kind === "photo-logo") {
+    const sortKey = String(item.SK);
+    const photoId =
+      typeof item.photoId === "string" ? item.photoId : sortKey.split("#")[0];
+    const photo = photos.get(photoId);
+    if (photo) {
+      upgraded.timeKey = timeIndexKey(storedPhotoTimeKey(photo), sortKey);
+    }
+  }
+
+  return upgraded;
+}